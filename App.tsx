@@ -1,18 +1,39 @@
 
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { 
-  Activity, Settings, Database, Terminal, RefreshCw, Cpu, Tag, Zap, Trash2, X, ChevronUp, ChevronDown, Link, Link2Off, FileUp, Pause, Play, Download
+  Activity, Settings, Database, Terminal, RefreshCw, Cpu, Tag, Zap, Trash2, X, ChevronUp, ChevronDown, Link, Link2Off, FileUp, Pause, Play, Download, Radar, ListOrdered, ShieldCheck, GitCompare, ChartLine, Gauge, Circle, FolderOpen, Microscope, Wrench, SlidersHorizontal
 } from 'lucide-react';
-import { TestConfig, TestResult, ERROR_CODES, CommandType } from './types';
+import { TestConfig, TestResult, TestStatus, FrameError, ERROR_CODES, FRAME_ERROR_MESSAGES, TransportType, BusDevice, BusMap, TestPlan, RunMode, SweepCommandType, WritePattern, ChannelMode, MemoryBank, MEMORY_BANK_LABELS, TestSession, CycleTiming, FirmwareProgress, FirmwareAuditEntry, FirmwareOutcome, FIRMWARE_OUTCOME_LABELS, Capture, CaptureChunk, CustomCommand, ConfigProfile } from './types';
 import { 
-  build64HRequest, build61HRequest, build35HRequest, build63HRequest, build70HRequest, uint8ArrayToHex, scanAllPackets, hexToAscii,
-  buildF0HRequest, buildF1HRequest, buildF2HRequest
+  uint8ArrayToHex, buildF0HRequest, buildF1HRequest, buildF2HRequest, DecodedPacket
 } from './utils/protocol';
-import { initDB, saveResultToDB, getAllResultsFromDB, clearDB } from './utils/db';
+import { createFrameDecoder } from './utils/decoder';
+import { COMMAND_REGISTRY, COMMAND_TYPES, CommandDefinition, buildRequest, CommandCompletion, CycleData, ResponseContext, commandLabel, isInventoryCommand, resultPreview } from './utils/commands';
+import { initDB, saveResultToDB, getResultsBySession, clearDB, createSession, updateSession, getAllSessions, deleteSession, saveFirmwareProgress, getFirmwareProgress, clearFirmwareProgress, saveFirmwareAudit, getAllFirmwareAudits, saveCapture, getAllCaptures, appendCaptureChunks, getCaptureChunks, deleteCapture } from './utils/db';
+import { serializeCapture, parseCapture, CAPTURE_FILE_EXT } from './utils/capture';
+import { ReplayMode, ReplayOptions, createReplayTransport } from './utils/replay';
+import { countFirmwarePages, firmwarePage, firmwareFingerprint, isRetryableF1Error, backoffDelay, FirmwareImage, inspectFirmware, firmwareModel, sameFirmwareVersion, formatChecksum, CHECKSUM_ERRORS } from './utils/firmware';
+import { Transport, isSerialSupported, requestSerialTransport } from './utils/transport';
+import { SimulatorOptions, DEFAULT_SIMULATOR_OPTIONS, createSimulatedTransport } from './utils/simulator';
+import { DEFAULT_PLAN, EXPECTATION_LABELS, parsePlan, serializePlan, resolveStepConfig, meetsExpectation } from './utils/plan';
+import { generateWriteData, diffBytes } from './utils/verify';
+import { computeSessionStats, summarizeLatency, insertSorted, cycleLatency, LatencySummary } from './utils/stats';
+import { gradeInventory, parseEpcList } from './utils/inventory';
+import { buildSweepPowers, SWEEP_COMMAND_TYPES } from './utils/sweep';
+import { parseCustomCommands, customCommandLabel, customCommandDefinition } from './utils/custom';
+import { MAX_READER_ID, BAUD_RATES, ProfileStore, loadProfileStore, activeProfile, createProfile, uniqueProfileName, validateConfig, serializeProfileStore, serializeProfiles, parseProfileFile, PROFILE_FILE_EXT } from './utils/profiles';
+import TestPlanEditor from './components/TestPlanEditor';
+import SessionCompare from './components/SessionCompare';
+import Dashboard from './components/Dashboard';
+import FirmwareAuditTable from './components/FirmwareAuditTable';
+import CaptureManager from './components/CaptureManager';
+import FrameInspector from './components/FrameInspector';
+import CommandParamInput from './components/CommandParamInput';
+import CommandComposer from './components/CommandComposer';
+import ProfileManager from './components/ProfileManager';
 
 interface ExtendedTestResult extends TestResult {
   configTimeout: number;
-  configPower?: number;
   configMaxRecords?: number;
   epcList: string[];
 }
@@ -27,56 +48,147 @@ interface RawLogEntry {
   timestamp: string;
   type: 'tx' | 'rx';
   data: string;
+  error?: string; // 此區塊內含錯誤封包時的說明
 }
 
+// 擷取區塊批次寫入 IndexedDB 的間隔
+const CAPTURE_FLUSH_MS = 1000;
+
+// 原始數據時間戳記 (毫秒)
+const timeWithMs = () => {
+  const d = new Date();
+  return `${d.toLocaleTimeString([], { hour12: false })}.${String(d.getMilliseconds()).padStart(3, '0')}`;
+};
+
+// 匯流排掃描時每個站號的等待時間
+const BUS_SCAN_TIMEOUT_MS = 300;
+// F2H 後等待讀取器重新啟動，再以 35H 確認版本
+const FW_REBOOT_DELAY_MS = 3000;
+const FW_VERIFY_ATTEMPTS = 5;
+
+/**
+ * 解析站號清單，支援逗號/空白分隔與範圍 (例如 "1-4, 7")
+ */
+const parseReaderIds = (text: string): number[] => {
+  const ids = text.split(/[,\s]+/).filter(Boolean).flatMap(part => {
+    const [from, to] = part.split('-').map(v => parseInt(v));
+    if (isNaN(from)) return [];
+    if (isNaN(to)) return [from];
+    return Array.from({ length: Math.max(0, to - from + 1) }, (_, i) => from + i);
+  });
+  return Array.from(new Set(ids.filter(v => v >= 0 && v <= MAX_READER_ID)));
+};
+
+// CSV 欄位一律加上雙引號，內含的雙引號重複一次 (自訂指令名稱與錯誤訊息可能含逗號或引號)
+const csvField = (value: string | number | boolean) => `"${String(value).replace(/"/g, '""')}"`;
+
+// 高解析度 epoch 毫秒，用於循環時間量測
+const nowHr = () => performance.timeOrigin + performance.now();
+
+const EMPTY_STATS = { total: 0, success: 0, tagsFound: 0, crcErrors: 0, framingErrors: 0, verifyTotal: 0, verifyMatch: 0, gradedCycles: 0, missingCycles: 0, unexpectedCycles: 0, missingTags: 0 };
+
+const statusLabels: Record<TestStatus, string> = {
+  Success: '成功',
+  Failure: '失敗',
+  Timeout: '逾時',
+  CrcError: 'CRC 錯誤',
+  FramingError: '框架錯誤',
+  Mismatch: '資料不符',
+  MissingTags: '缺少標籤',
+  UnexpectedTags: '非預期標籤'
+};
+
+const writePatternLabels: Record<WritePattern, string> = {
+  fixed: '固定資料',
+  random: '隨機資料',
+  increment: '遞增資料'
+};
+
 const App: React.FC = () => {
   const [isConnected, setIsConnected] = useState(false);
   const [isTesting, setIsTesting] = useState(false);
   const [isSingleTesting, setIsSingleTesting] = useState(false);
-  const [activeTab, setActiveTab] = useState<'terminal' | 'history' | 'update'>('terminal');
+  const [activeTab, setActiveTab] = useState<'terminal' | 'dashboard' | 'history' | 'update'>('terminal');
   const [logView, setLogView] = useState<'trace' | 'raw'>('trace');
   const [isControlExpanded, setIsControlExpanded] = useState(true);
   const [isAdvConfigOpen, setIsAdvConfigOpen] = useState(false);
   const [isCmdMenuOpen, setIsCmdMenuOpen] = useState(false);
+  const [isPlanEditorOpen, setIsPlanEditorOpen] = useState(false);
+  const [isCompareOpen, setIsCompareOpen] = useState(false);
+  const [isCaptureOpen, setIsCaptureOpen] = useState(false);
+  const [inspectorHex, setInspectorHex] = useState<string | null>(null);
+  const [isComposerOpen, setIsComposerOpen] = useState(false);
+  const [captures, setCaptures] = useState<Capture[]>([]);
+  // 錄製中的擷取；區塊先暫存於 buffer，定期批次寫入
+  const captureRef = useRef<{ capture: Capture; startHr: number; buffer: CaptureChunk[] } | null>(null);
+  const captureTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  const [recordingId, setRecordingId] = useState<number | null>(null);
+  const [replaySource, setReplaySource] = useState<{ capture: Capture; chunks: CaptureChunk[] } | null>(null);
+  const [replayOptions, setReplayOptions] = useState<ReplayOptions>({ mode: 'reactive', speed: 1 });
   
   const dbRef = useRef<IDBDatabase | null>(null);
 
-  const [summaryStats, setSummaryStats] = useState({
-    total: 0,
-    success: 0,
-    tagsFound: 0
-  });
+  const [summaryStats, setSummaryStats] = useState(EMPTY_STATS);
 
-  const commandLabels: Record<CommandType, string> = {
-    '64H': 'Read EPC Data Advance(64H)',
-    '61H': 'Read EPC Data Auto Power(61H)',
-    '35H': 'Read FW Version(35H)',
-    '63H': 'Read User Memory Auto Power(63H)',
-    '70H': 'Write Tag Data(70H)'
-  };
+  // 具名設定檔；首次啟動時移轉舊版的單一設定 (rfid_tester_config)
+  const [profileStore, setProfileStore] = useState<ProfileStore>(() => loadProfileStore(localStorage.getItem('rfid_tester_profiles'), localStorage.getItem('rfid_tester_config')));
+  const [isProfileOpen, setIsProfileOpen] = useState(false);
+  const [config, setConfig] = useState<TestConfig>(() => activeProfile(profileStore).config);
+  
+  const [simOptions, setSimOptions] = useState<SimulatorOptions>(() => {
+    const saved = localStorage.getItem('rfid_tester_simulator');
+    if (saved) {
+      try { return { ...DEFAULT_SIMULATOR_OPTIONS, ...JSON.parse(saved) }; } catch (e) { console.error("Parse simulator error", e); }
+    }
+    return DEFAULT_SIMULATOR_OPTIONS;
+  });
+  const [customCommands, setCustomCommands] = useState<CustomCommand[]>(() => {
+    const saved = localStorage.getItem('rfid_tester_custom_commands');
+    if (saved) {
+      try { return parseCustomCommands(saved); } catch (e) { console.error("Parse custom commands error", e); }
+    }
+    return [];
+  });
+  const [simTagsText, setSimTagsText] = useState(() => simOptions.tags.map(t => t.user ? `${t.epc}:${t.user}` : t.epc).join('\n'));
+  const [simIdsText, setSimIdsText] = useState(() => simOptions.readerIds.join(','));
 
-  const shortCommandLabels: Record<CommandType, string> = {
-    '64H': 'EPC (64H)',
-    '61H': 'Auto (61H)',
-    '35H': 'FW (35H)',
-    '63H': 'User (63H)',
-    '70H': 'Write (70H)'
-  };
+  const [runMode, setRunMode] = useState<RunMode>(() => {
+    const saved = localStorage.getItem('rfid_tester_run_mode');
+    return saved === 'plan' || saved === 'verify' || saved === 'sweep' ? saved : 'single';
+  });
+  const [plan, setPlan] = useState<TestPlan>(() => {
+    const saved = localStorage.getItem('rfid_tester_plan');
+    if (saved) {
+      try { return parsePlan(saved); } catch (e) { console.error("Parse plan error", e); }
+    }
+    return DEFAULT_PLAN;
+  });
 
-  const [config, setConfig] = useState<TestConfig>(() => {
-    const saved = localStorage.getItem('rfid_tester_config');
+  const [busMap, setBusMap] = useState<BusMap | null>(() => {
+    const saved = localStorage.getItem('rfid_tester_bus_map');
     if (saved) {
-      try { return JSON.parse(saved); } catch (e) { console.error("Parse config error", e); }
+      try { return JSON.parse(saved); } catch (e) { console.error("Parse bus map error", e); }
     }
-    return {
-      commandType: '64H', totalCycles: 10, timeoutMs: 3000, intervalMs: 100, maxRecords: 10,
-      id: 1, channel: 0, power: 33, baudRate: 38400, stopOnError: false,
-      userAddr: '0000', userLen: 4,
-      writeAddr: '0002', writeLen: 6, writeData: 'FFFF00000000000000000000'
-    };
+    return null;
   });
-  
+  const [isScanning, setIsScanning] = useState(false);
+  const [scanProgress, setScanProgress] = useState(0);
+
   const [results, setResults] = useState<ExtendedTestResult[]>([]);
+  const [sessions, setSessions] = useState<TestSession[]>([]);
+  // 歷史紀錄頁正在檢視的工作階段
+  const [viewSessionId, setViewSessionId] = useState<number | null>(null);
+  const viewSessionIdRef = useRef<number | null>(null);
+  // 目前寫入結果的工作階段 (手動單次測試會沿用直到下一次壓力測試)
+  const sessionRef = useRef<TestSession | null>(null);
+  // 手動單次測試在工作階段中的循環序號，每次遞增，統計時才不會把多次手動測試併成同一循環
+  const manualCycleRef = useRef<number>(0);
+  const [channelsText, setChannelsText] = useState(() => (config.channels?.length > 1 ? config.channels : [config.channel]).join(','));
+  const [expectedText, setExpectedText] = useState(() => (config.expectedEpcs || []).join('\n'));
+  const [operatorNote, setOperatorNote] = useState(() => localStorage.getItem('rfid_tester_operator_note') || '');
+  // 最近一次 64H/61H 盤點到的 EPC，用於 70H 目標選擇
+  const [lastInventory, setLastInventory] = useState<string[]>([]);
+  const lastInventoryRef = useRef<string[]>([]);
   const [currentCycle, setCurrentCycle] = useState(0);
   const [logs, setLogs] = useState<LogEntry[]>([]);
   const [rawLogs, setRawLogs] = useState<RawLogEntry[]>([]);
@@ -84,34 +196,88 @@ const App: React.FC = () => {
   const [autoScrollLogs, setAutoScrollLogs] = useState(true);
 
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
-  const [fileVersion, setFileVersion] = useState<string>('');
+  const [fwImage, setFwImage] = useState<FirmwareImage | null>(null);
+  const [fwChecksumErrors, setFwChecksumErrors] = useState(0);
+  const [fwVerify, setFwVerify] = useState<{ expected: string; actual: string; ok: boolean } | null>(null);
+  const [fwAudits, setFwAudits] = useState<FirmwareAuditEntry[]>([]);
+  const [fwBatchIdsText, setFwBatchIdsText] = useState('');
+  const [fwBatch, setFwBatch] = useState<{ id: number; status: 'pending' | 'running' | 'done'; entry?: FirmwareAuditEntry }[]>([]);
   const [isUpdating, setIsUpdating] = useState(false);
   const [isUpdatePaused, setIsUpdatePaused] = useState(false);
   const [updateProgress, setUpdateProgress] = useState(0);
   const [updateStatus, setUpdateStatus] = useState('');
+  // 與目前檔案、站號相符的未完成更新進度
+  const [fwResume, setFwResume] = useState<FirmwareProgress | null>(null);
 
-  const [port, setPort] = useState<any>(null);
-  const masterBufferRef = useRef<Uint8Array>(new Uint8Array(0));
+  const [transport, setTransport] = useState<Transport | null>(null);
+  // 本次循環收到的原始區塊，組成結果時才合併，避免每個區塊都複製整個緩衝區
+  const rxChunksRef = useRef<Uint8Array[]>([]);
+  const decoderRef = useRef(createFrameDecoder());
+  const frameQueueRef = useRef<DecodedPacket[]>([]);
+  const firstByteAtRef = useRef<number | null>(null);
+  // 本次壓力測試的延遲 (已排序)，供標頭顯示百分位數
+  const runLatenciesRef = useRef<number[]>([]);
   const isReadingRef = useRef<boolean>(false);
   const backgroundReaderRef = useRef<any>(null);
   const stopRequestedRef = useRef<boolean>(false);
   const updatePausedRef = useRef<boolean>(false);
+  const fwRunRef = useRef<number>(0); // 每次開始單台更新遞增，辨識被重新開始取代的舊流程
   const logEndRef = useRef<HTMLDivElement>(null);
   
   const initialBaudRateRef = useRef<number>(config.baudRate);
 
   useEffect(() => {
-    initDB().then(db => {
+    initDB().then(async db => {
       dbRef.current = db;
+      const all = await getAllSessions(db);
+      setSessions(all.reverse());
+      setFwAudits((await getAllFirmwareAudits(db)).reverse());
+      setCaptures((await getAllCaptures(db)).reverse());
+      if (all.length > 0) await openSession(all[0].id!);
     }).catch(err => {
       addLog("無法初始化資料庫: " + err.message, 'error');
     });
   }, []);
 
+  // 卸載時停止擷取的定時寫入
+  useEffect(() => () => {
+    if (captureTimerRef.current) clearInterval(captureTimerRef.current);
+  }, []);
+
   useEffect(() => {
     updatePausedRef.current = isUpdatePaused;
   }, [isUpdatePaused]);
 
+  useEffect(() => {
+    if (!selectedFile || !dbRef.current || isUpdating) { if (!selectedFile) setFwResume(null); return; }
+    const db = dbRef.current;
+    selectedFile.arrayBuffer().then(async buffer => {
+      const saved = await getFirmwareProgress(db, config.id);
+      const matches = saved && saved.fileName === selectedFile.name && saved.fileSize === buffer.byteLength
+        && saved.fingerprint === firmwareFingerprint(new Uint8Array(buffer)) && saved.confirmedPage < saved.totalPages;
+      setFwResume(matches ? saved : null);
+    }).catch(err => addLog("讀取韌體更新進度失敗: " + err.message, 'error'));
+  }, [selectedFile, config.id, isUpdating]);
+
+  useEffect(() => {
+    localStorage.setItem('rfid_tester_plan', serializePlan(plan));
+    localStorage.setItem('rfid_tester_run_mode', runMode);
+  }, [plan, runMode]);
+
+  useEffect(() => {
+    localStorage.setItem('rfid_tester_operator_note', operatorNote);
+  }, [operatorNote]);
+
+  useEffect(() => {
+    localStorage.setItem('rfid_tester_custom_commands', JSON.stringify(customCommands));
+  }, [customCommands]);
+
+  useEffect(() => {
+    localStorage.setItem('rfid_tester_profiles', serializeProfileStore(profileStore));
+    // 已移轉為設定檔，不再保留舊版單一設定
+    localStorage.removeItem('rfid_tester_config');
+  }, [profileStore]);
+
   useEffect(() => {
     if (autoScrollLogs && logEndRef.current) {
       logEndRef.current.scrollIntoView({ behavior: 'smooth' });
@@ -119,20 +285,16 @@ const App: React.FC = () => {
   }, [logs, rawLogs, autoScrollLogs]);
 
   useEffect(() => {
-    const onDisconnect = (event: any) => {
-      if (port && event.port === port) {
-        addLog("偵測到設備中斷 (Device Lost)", 'error');
-        cleanupState();
-      }
-    };
-    const serial = (navigator as any).serial;
-    if (serial) serial.addEventListener('disconnect', onDisconnect);
-    return () => { if (serial) serial.removeEventListener('disconnect', onDisconnect); };
-  }, [port]);
+    if (!transport) return;
+    return transport.onDisconnect(() => {
+      addLog("偵測到設備中斷 (Device Lost)", 'error');
+      cleanupState();
+    });
+  }, [transport]);
 
   const cleanupState = () => {
     setIsConnected(false); setIsTesting(false); setIsSingleTesting(false);
-    setIsUpdating(false); setIsUpdatePaused(false); setPort(null);
+    setIsUpdating(false); setIsUpdatePaused(false); setTransport(null);
     isReadingRef.current = false; backgroundReaderRef.current = null;
   };
 
@@ -141,250 +303,965 @@ const App: React.FC = () => {
     setLogs(prev => [...prev, { timestamp, type, msg }].slice(-300));
   };
 
-  const addRawLog = (data: Uint8Array, type: 'tx' | 'rx') => {
-    const timestamp = new Date().toLocaleTimeString();
+  const addRawLog = (data: Uint8Array, type: 'tx' | 'rx', error?: string) => {
+    const timestamp = timeWithMs();
     const hex = uint8ArrayToHex(data);
-    setRawLogs(prev => [...prev, { timestamp, type, data: hex }].slice(-200));
+    setRawLogs(prev => [...prev, { timestamp, type, data: hex, error }].slice(-200));
+    const cap = captureRef.current;
+    if (cap) cap.buffer.push({ captureId: cap.capture.id, t: nowHr() - cap.startHr, dir: type, data: hex });
   };
 
-  const writeToSerial = async (data: Uint8Array, description: string) => {
-    if (!port || !port.writable) return;
+  const flushCapture = async () => {
+    const cap = captureRef.current;
+    if (!cap || !dbRef.current || cap.buffer.length === 0) return;
+    const chunks = cap.buffer.splice(0);
+    cap.capture.chunkCount += chunks.length;
     try {
-      const writer = port.writable.getWriter();
-      await writer.write(data);
-      writer.releaseLock();
+      await appendCaptureChunks(dbRef.current, chunks);
+      await saveCapture(dbRef.current, cap.capture);
+      setCaptures(prev => prev.map(c => c.id === cap.capture.id ? { ...cap.capture } : c));
+    } catch (err: any) { addLog("寫入擷取失敗: " + err.message, 'error'); }
+  };
+
+  /**
+   * 開始錄製，已在錄製或資料庫未就緒時回傳 false
+   */
+  const startCapture = async (name = `擷取 ${new Date().toLocaleString()}`): Promise<boolean> => {
+    if (!dbRef.current || captureRef.current) return false;
+    const capture: Capture = {
+      name, startedAt: new Date().toISOString(),
+      baudRate: config.baudRate, transportType: config.transportType, deviceId: config.id, chunkCount: 0
+    };
+    capture.id = await saveCapture(dbRef.current, capture);
+    captureRef.current = { capture, startHr: nowHr(), buffer: [] };
+    captureTimerRef.current = setInterval(flushCapture, CAPTURE_FLUSH_MS);
+    setRecordingId(capture.id); setCaptures(prev => [{ ...capture }, ...prev]);
+    addLog(`開始錄製收發擷取 #${capture.id}`, 'system');
+    return true;
+  };
+
+  const stopCapture = async () => {
+    const cap = captureRef.current;
+    if (!cap) return;
+    if (captureTimerRef.current) { clearInterval(captureTimerRef.current); captureTimerRef.current = null; }
+    cap.capture.endedAt = new Date().toISOString();
+    await flushCapture();
+    if (dbRef.current) await saveCapture(dbRef.current, cap.capture);
+    setCaptures(prev => prev.map(c => c.id === cap.capture.id ? { ...cap.capture } : c));
+    captureRef.current = null; setRecordingId(null);
+    addLog(`停止錄製，共 ${cap.capture.chunkCount} 個區塊`, 'system');
+  };
+
+  const exportCapture = async (capture: Capture) => {
+    if (!dbRef.current || capture.id === undefined) return;
+    if (capture.id === recordingId) await flushCapture();
+    const chunks = await getCaptureChunks(dbRef.current, capture.id);
+    const blob = new Blob([serializeCapture(capture, chunks)], { type: 'application/x-ndjson;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `RFID_Capture_${capture.id}_${new Date(capture.startedAt).getTime()}${CAPTURE_FILE_EXT}`;
+    link.click(); URL.revokeObjectURL(url);
+  };
+
+  const importCapture = async (file: File) => {
+    if (!dbRef.current) return;
+    try {
+      const { capture, chunks } = parseCapture(await file.text());
+      capture.id = await saveCapture(dbRef.current, capture);
+      await appendCaptureChunks(dbRef.current, chunks.map(c => ({ ...c, captureId: capture.id })));
+      setCaptures(prev => [capture, ...prev]);
+      addLog(`已匯入擷取「${capture.name}」(${chunks.length} 個區塊)`, 'system');
+    } catch (err: any) { alert(`擷取檔匯入失敗: ${err.message}`); }
+  };
+
+  const selectReplay = async (capture: Capture) => {
+    if (!dbRef.current || capture.id === undefined) return;
+    const chunks = await getCaptureChunks(dbRef.current, capture.id);
+    setReplaySource({ capture, chunks });
+    setConfig({ ...config, transportType: 'replay' });
+    setIsCaptureOpen(false);
+    addLog(`已選擇重播「${capture.name}」，${isConnected ? '請重新連線以' : '連線後即可'}開始重播`, 'system');
+  };
+
+  const removeCapture = async (capture: Capture) => {
+    if (!dbRef.current || capture.id === undefined || !confirm(`確定刪除擷取「${capture.name}」？`)) return;
+    await deleteCapture(dbRef.current, capture.id);
+    setCaptures(prev => prev.filter(c => c.id !== capture.id));
+    if (replaySource?.capture.id === capture.id) setReplaySource(null);
+  };
+
+  const resetReceiveState = () => {
+    rxChunksRef.current = [];
+    decoderRef.current.reset();
+    frameQueueRef.current = [];
+    firstByteAtRef.current = null;
+  };
+
+  const writeToTransport = async (data: Uint8Array, description: string) => {
+    if (!transport) return;
+    try {
+      await transport.write(data);
       addLog(`[TX] ${description}: ${uint8ArrayToHex(data)}`, 'tx');
       addRawLog(data, 'tx');
     } catch (err: any) { addLog(`寫入失敗: ${err.message}`, 'error'); }
   };
 
-  const startBackgroundRead = async (portObj: any) => {
-    if (isReadingRef.current) return;
+  const waitForFrame = async (match: (p: DecodedPacket) => boolean, timeoutMs: number): Promise<DecodedPacket | null> => {
+    const start = Date.now();
+    while (Date.now() - start < timeoutMs) {
+      if (stopRequestedRef.current) return null;
+      const found = frameQueueRef.current.splice(0).find(match);
+      if (found) return found;
+      await new Promise(r => setTimeout(r, 10));
+    }
+    return null;
+  };
+
+  const startBackgroundRead = async (source: Transport) => {
+    const readable = source.readable();
+    if (isReadingRef.current || !readable) return;
     isReadingRef.current = true;
-    const reader = portObj.readable.getReader();
+    const reader = readable.getReader();
     backgroundReaderRef.current = reader;
     try {
       while (isReadingRef.current) {
         const { value, done } = await reader.read();
         if (done) break;
         if (value) {
-          addRawLog(value, 'rx');
-          const next = new Uint8Array(masterBufferRef.current.length + value.length);
-          next.set(masterBufferRef.current);
-          next.set(value, masterBufferRef.current.length);
-          masterBufferRef.current = next;
+          const receivedAt = nowHr();
+          if (firstByteAtRef.current === null) firstByteAtRef.current = receivedAt;
+          const frames = decoderRef.current.push(value);
+          frames.forEach(f => { f.receivedAt = receivedAt; });
+          const badFrame = frames.find(f => f.frameError);
+          addRawLog(value, 'rx', badFrame?.frameError ? FRAME_ERROR_MESSAGES[badFrame.frameError] : undefined);
+          rxChunksRef.current.push(value);
+          frameQueueRef.current.push(...frames);
         }
       }
     } catch (err: any) { if (err.name === 'NetworkError' || err.message.includes('lost')) cleanupState(); } 
     finally { try { if (backgroundReaderRef.current === reader) reader.releaseLock(); } catch (e) {} isReadingRef.current = false; backgroundReaderRef.current = null; }
   };
 
-  const connectSerial = async () => {
-    const serial = (navigator as any).serial;
-    if (!serial) { alert("瀏覽器不支援 Web Serial"); return; }
+  const connectDevice = async (sim: SimulatorOptions = simOptions) => {
+    const useSimulator = config.transportType === 'simulator';
+    const useReplay = config.transportType === 'replay';
+    if (useReplay && !replaySource) { alert("請先在收發擷取中選擇要重播的擷取"); return; }
+    if (!useSimulator && !useReplay && !isSerialSupported()) { alert("瀏覽器不支援 Web Serial"); return; }
     try {
-      const selectedPort = await serial.requestPort();
-      await selectedPort.open({ baudRate: config.baudRate });
-      setPort(selectedPort); setIsConnected(true);
-      addLog(`串口已連接成功 (Baud: ${config.baudRate})`, 'system');
-      startBackgroundRead(selectedPort);
+      const selected = useReplay ? createReplayTransport(replaySource!.chunks, replayOptions, () => addLog('擷取重播已播放完畢', 'system'))
+        : useSimulator ? createSimulatedTransport(sim) : await requestSerialTransport();
+      await selected.open(config.baudRate);
+      setTransport(selected); setIsConnected(true);
+      addLog(`${selected.label}已連接成功 (Baud: ${config.baudRate})`, 'system');
+      if (busMap && busMap.devices.length > 0) {
+        addLog(`上次掃描 (${new Date(busMap.scannedAt).toLocaleString()}) 發現站號: ${busMap.devices.map(d => d.id).join(', ')}`, 'info');
+      }
+      startBackgroundRead(selected);
     } catch (err: any) { addLog("連線失敗: " + err.message, 'error'); }
   };
 
-  const disconnectSerial = async () => {
-    if (isTesting || isUpdating || isSingleTesting) stopRequestedRef.current = true;
+  const disconnectDevice = async () => {
+    if (isTesting || isUpdating || isSingleTesting || isScanning) stopRequestedRef.current = true;
     isReadingRef.current = false;
     if (backgroundReaderRef.current) { try { await backgroundReaderRef.current.cancel(); } catch (e) {} }
-    if (port) { try { await port.close(); addLog("串口已正常關閉", 'system'); } catch (e: any) { addLog(`關閉異常: ${e.message}`, 'error'); } finally { cleanupState(); } }
+    if (transport) { try { await transport.close(); addLog(`${transport.label}已正常關閉`, 'system'); } catch (e: any) { addLog(`關閉異常: ${e.message}`, 'error'); } finally { cleanupState(); } }
+  };
+
+  const profile = activeProfile(profileStore);
+  const isProfileDirty = JSON.stringify(profile.config) !== JSON.stringify(config);
+
+  /**
+   * 驗證目前設定並寫回使用中的設定檔，有錯誤時列出所有問題且不儲存
+   */
+  const saveActiveProfile = (): boolean => {
+    const errors = validateConfig(config);
+    if (errors.length > 0) { alert(`設定有誤，未儲存:\n${errors.join('\n')}`); return false; }
+    // 寫入畫面上顯示的設定檔 (activeId 失效時為第一個設定檔)，並同步 activeId
+    setProfileStore(prev => ({ activeId: profile.id, profiles: prev.profiles.map(p => p.id === profile.id ? { ...p, config, updatedAt: new Date().toISOString() } : p) }));
+    addLog(`已儲存設定檔「${profile.name}」`, 'system');
+    return true;
+  };
+
+  const saveProfileAs = (name: string) => {
+    const errors = validateConfig(config);
+    if (errors.length > 0) { alert(`設定有誤，未儲存:\n${errors.join('\n')}`); return; }
+    const created = createProfile(uniqueProfileName(name, profileStore.profiles), config);
+    setProfileStore(prev => ({ activeId: created.id, profiles: [...prev.profiles, created] }));
+    addLog(`已建立設定檔「${created.name}」`, 'system');
+  };
+
+  const switchProfile = (next: ConfigProfile) => {
+    if (isTesting || isSingleTesting || isUpdating || isScanning) return;
+    if (isProfileDirty && !confirm(`目前設定尚未儲存至「${profile.name}」，確定切換？`)) return;
+    setConfig(next.config);
+    setChannelsText((next.config.channels.length > 1 ? next.config.channels : [next.config.channel]).join(','));
+    setExpectedText(next.config.expectedEpcs.join('\n'));
+    setProfileStore(prev => ({ ...prev, activeId: next.id }));
+    addLog(`已切換設定檔「${next.name}」`, 'system');
+    // 與 handleSaveConfig 相同，連線參數只在重新連線時套用
+    if (isConnected && (next.config.baudRate !== config.baudRate || next.config.transportType !== config.transportType)) {
+      addLog(`設定檔的連線參數 (${next.config.baudRate} bps) 將於重新連線後套用`, 'system');
+    }
+  };
+
+  const renameProfile = (target: ConfigProfile, name: string) => {
+    const unique = uniqueProfileName(name, profileStore.profiles.filter(p => p.id !== target.id));
+    setProfileStore(prev => ({ ...prev, profiles: prev.profiles.map(p => p.id === target.id ? { ...p, name: unique } : p) }));
+  };
+
+  const removeProfile = (target: ConfigProfile) => {
+    if (target.id === profile.id) { alert("無法刪除使用中的設定檔，請先切換至其他設定檔"); return; }
+    setProfileStore(prev => ({ ...prev, profiles: prev.profiles.filter(p => p.id !== target.id) }));
+  };
+
+  const exportProfiles = (list: ConfigProfile[]) => {
+    const blob = new Blob([serializeProfiles(list)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${list.length === 1 ? list[0].name : `RFID_Profiles_${Date.now()}`}${PROFILE_FILE_EXT}`;
+    link.click(); URL.revokeObjectURL(url);
+  };
+
+  const importProfiles = async (file: File) => {
+    try {
+      const imported = parseProfileFile(await file.text(), file.name.replace(/\.(rfidprofile\.)?json$/i, ''));
+      setProfileStore(prev => {
+        const profiles = [...prev.profiles];
+        imported.forEach(p => profiles.push({ ...p, name: uniqueProfileName(p.name, profiles) }));
+        return { ...prev, profiles };
+      });
+      addLog(`已匯入 ${imported.length} 個設定檔: ${imported.map(p => p.name).join('、')}`, 'system');
+    } catch (err: any) { alert(`設定檔匯入失敗: ${err.message}`); }
   };
 
   const handleSaveConfig = async () => {
-    localStorage.setItem('rfid_tester_config', JSON.stringify(config));
+    if (!saveActiveProfile()) return;
+    const nextSim: SimulatorOptions = {
+      ...simOptions,
+      readerIds: parseReaderIds(simIdsText),
+      tags: simTagsText.split('\n').map(line => line.trim()).filter(Boolean).map(line => {
+        const [epc, user = ''] = line.split(':');
+        return { epc: epc.toUpperCase().replace(/[^0-9A-F]/g, ''), user: user.toUpperCase().replace(/[^0-9A-F]/g, '') };
+      })
+    };
+    setSimOptions(nextSim);
+    localStorage.setItem('rfid_tester_simulator', JSON.stringify(nextSim));
     setIsAdvConfigOpen(false);
-    if (isConnected && config.baudRate !== initialBaudRateRef.current) {
-      await disconnectSerial();
-      await connectSerial();
+    // 模擬器與重播參數僅在重新連線時套用，因此非串口時一律重新連線
+    const transportChanged = !!transport && config.transportType !== transport.kind;
+    if (isConnected && (config.baudRate !== initialBaudRateRef.current || transportChanged || config.transportType !== 'serial')) {
+      await disconnectDevice();
+      await connectDevice(nextSim);
+    }
+  };
+
+  const scanBus = async () => {
+    if (!isConnected || isTesting || isSingleTesting || isUpdating || isScanning) return;
+    setIsScanning(true); stopRequestedRef.current = false;
+    addLog(`開始掃描 RS485 匯流排 (站號 0~${MAX_READER_ID})`, 'system');
+    const devices: BusDevice[] = [];
+    for (let id = 0; id <= MAX_READER_ID; id++) {
+      if (stopRequestedRef.current) break;
+      setScanProgress(id);
+      resetReceiveState();
+      const start = performance.now();
+      await writeToTransport(buildRequest(COMMAND_REGISTRY['35H'], { ...config, id }), `35H 掃描 ID:${id}`);
+      const reply = await waitForFrame(p => p.cmd === 0x35 && p.id === id && !p.frameError, BUS_SCAN_TIMEOUT_MS);
+      if (reply) {
+        const device = { id, fwVersion: reply.fwVersion || '', latencyMs: Math.round(performance.now() - start) };
+        devices.push(device);
+        addLog(`[RX] 站號 ${id} 回應: ${device.fwVersion} (${device.latencyMs} ms)`, 'rx');
+      }
     }
+    if (!stopRequestedRef.current) {
+      const map: BusMap = { scannedAt: new Date().toISOString(), baudRate: config.baudRate, devices };
+      setBusMap(map);
+      localStorage.setItem('rfid_tester_bus_map', JSON.stringify(map));
+      addLog(`匯流排掃描完成: 發現 ${devices.length} 台讀取器`, 'system');
+    }
+    setIsScanning(false);
   };
 
   const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0] || null;
-    setSelectedFile(file);
+    setSelectedFile(file); setFwVerify(null); setFwChecksumErrors(0);
     if (file) {
       const buffer = await file.arrayBuffer();
-      const data = new Uint8Array(buffer).slice(0, 32);
-      const text = new TextDecoder().decode(data);
-      const binIndex = text.indexOf('.bin');
-      const ver = (binIndex !== -1 ? text.substring(0, binIndex) : text).replace(/\0/g, '').trim();
-      setFileVersion(ver || '未知');
+      const deviceVersion = busMap?.devices.find(d => d.id === config.id)?.fwVersion || '';
+      setFwImage(inspectFirmware(new Uint8Array(buffer), deviceVersion));
+    } else setFwImage(null);
+  };
+
+  const queryFwVersion = async (id: number): Promise<string | null> => {
+    resetReceiveState();
+    await writeToTransport(buildRequest(COMMAND_REGISTRY['35H'], { ...config, id }), `35H ID:${id}`);
+    const reply = await waitForFrame(p => p.cmd === 0x35 && p.id === id && !p.frameError, 1000);
+    return reply ? reply.fwVersion || '' : null;
+  };
+
+  /**
+   * F2H 後讀取器重新啟動：重新開啟傳輸層並以 35H 確認執行中的版本與檔案相符
+   */
+  const verifyFlashedVersion = async (id: number, expected: string): Promise<{ expected: string; actual: string; ok: boolean } | null> => {
+    if (!transport) return null;
+    setUpdateStatus('等待讀取器重新啟動...');
+    isReadingRef.current = false;
+    if (backgroundReaderRef.current) { try { await backgroundReaderRef.current.cancel(); } catch (e) {} }
+    try {
+      await transport.close();
+      await new Promise(r => setTimeout(r, FW_REBOOT_DELAY_MS));
+      await transport.open(config.baudRate);
+      startBackgroundRead(transport);
+      addLog(`${transport.label}已重新連接`, 'system');
+    } catch (err: any) {
+      addLog(`更新後重新連線失敗: ${err.message}`, 'error');
+      setFwVerify({ expected, actual: '', ok: false });
+      return { expected, actual: '', ok: false };
     }
+    for (let attempt = 1; attempt <= FW_VERIFY_ATTEMPTS; attempt++) {
+      setUpdateStatus(`確認版本 (35H) ${attempt}/${FW_VERIFY_ATTEMPTS}`);
+      const actual = await queryFwVersion(id);
+      if (actual !== null) {
+        const result = { expected, actual, ok: sameFirmwareVersion(actual, expected) };
+        setFwVerify(result);
+        addLog(`[更新] ID ${id} 執行中版本 ${actual}${result.ok ? ' 與檔案相符' : `，與檔案 ${expected} 不符`}`, result.ok ? 'system' : 'error');
+        return result;
+      }
+      await new Promise(r => setTimeout(r, 1000));
+    }
+    addLog(`[更新] ID ${id} 重新啟動後未回應 35H`, 'error');
+    setFwVerify({ expected, actual: '', ok: false });
+    return { expected, actual: '', ok: false };
   };
 
-  const runFirmwareUpdate = async (isRestart = false) => {
-    if (!isConnected || !selectedFile) return;
-    if (isRestart) { stopRequestedRef.current = true; await new Promise(r => setTimeout(r, 200)); }
-    setIsUpdating(true); setIsUpdatePaused(false); setUpdateProgress(0); stopRequestedRef.current = false;
+  const recordFirmwareAudit = async (entry: FirmwareAuditEntry) => {
+    if (!dbRef.current) return;
+    try {
+      entry.id = await saveFirmwareAudit(dbRef.current, { ...entry });
+      setFwAudits(prev => [{ ...entry }, ...prev.filter(e => e.id !== entry.id)]);
+    } catch (err: any) { addLog("寫入更新紀錄失敗: " + err.message, 'error'); }
+  };
+
+  const createFirmwareAudit = (id: number, file: File, fileData: Uint8Array, image: FirmwareImage, resumeFrom = 0): FirmwareAuditEntry => ({
+    deviceId: id, fileName: file.name, fileSize: fileData.length,
+    cs1: formatChecksum(image.cs1), cs2: formatChecksum(image.cs2), imageVersion: image.version,
+    startedAt: new Date().toISOString(), resumedFrom: resumeFrom, totalPages: countFirmwarePages(fileData), pagesSent: 0, retries: 0, outcome: 'interrupted'
+  });
+
+  /**
+   * 對單一站號寫入映像檔並寫入稽核紀錄；失敗不拋出，由回傳紀錄的 outcome 判斷。
+   * 型號不符時 confirmModel 為 true 詢問使用者 (取消記為已中止)，否則直接記為失敗
+   */
+  const flashDevice = async (id: number, file: File, fileData: Uint8Array, image: FirmwareImage, resumeFrom = 0, confirmModel = true): Promise<FirmwareAuditEntry> => {
+    setUpdateProgress(0); setFwVerify(null); setFwChecksumErrors(0);
+    const totalP = countFirmwarePages(fileData);
+    const progress: FirmwareProgress = {
+      deviceId: id, fileName: file.name, fileSize: fileData.length, fingerprint: firmwareFingerprint(fileData),
+      totalPages: totalP, confirmedPage: resumeFrom, updatedAt: new Date().toISOString()
+    };
+    // 先以「未完成」寫入，頁面中途關閉時仍留有紀錄
+    const audit = createFirmwareAudit(id, file, fileData, image, resumeFrom);
+    const finishAudit = async (outcome: FirmwareOutcome, error?: string) => {
+      const entry = { ...audit, outcome, error, endedAt: new Date().toISOString() };
+      await recordFirmwareAudit(entry);
+      return entry;
+    };
 
     try {
-      const arrayBuffer = await selectedFile.arrayBuffer();
-      const fileData = new Uint8Array(arrayBuffer);
-      const pageSize = 512;
-      const totalP = Math.ceil(fileData.length / pageSize);
+      if (resumeFrom > 0) {
+        addLog(`[更新] ID ${id} 由封包 ${resumeFrom + 1}/${totalP} 續傳`, 'info');
+        setUpdateProgress(Math.floor((resumeFrom / totalP) * 100));
+      } else {
+        // 進入更新模式前確認讀取器型號
+        const current = await queryFwVersion(id);
+        audit.versionBefore = current || undefined;
+        if (current && image.version && firmwareModel(current) !== image.model) {
+          const message = `檔案型號 ${image.model} 與讀取器目前版本 ${current} 不符`;
+          if (!confirmModel) return await finishAudit('failed', message);
+          if (!confirm(`ID ${id}: ${message}，仍要更新？`)) return await finishAudit('cancelled', message);
+        }
+      }
+      await recordFirmwareAudit(audit);
 
-      await writeToSerial(buildF0HRequest(config.id), 'F0H');
-      await new Promise(r => setTimeout(r, 1000));
+      if (resumeFrom === 0) {
+        resetReceiveState();
+        await writeToTransport(buildF0HRequest(id), `F0H ID:${id}`);
+        if (!await waitForFrame(p => p.cmd === 0xF0 && p.id === id && !p.frameError, 1000) && !stopRequestedRef.current) addLog(`[更新] ID ${id} 未收到 F0H 回應，繼續寫入`, 'error');
+      }
 
-      for (let i = 1; i <= totalP; i++) {
+      for (let i = resumeFrom + 1; i <= totalP; i++) {
         while (updatePausedRef.current && !stopRequestedRef.current) { setUpdateStatus('暫停中...'); await new Promise(r => setTimeout(r, 100)); }
         if (stopRequestedRef.current || !isConnected) break;
-        setUpdateStatus(`寫入封包 ${i}/${totalP}`);
-        const chunk = new Uint8Array(pageSize).fill(0x00);
-        chunk.set(fileData.slice((i - 1) * pageSize, i * pageSize));
-        masterBufferRef.current = new Uint8Array(0);
-        await writeToSerial(buildF1HRequest(config.id, i, chunk), `F1H Pkt:${i}`);
-        
-        let confirmed = false; let start = Date.now();
-        while (Date.now() - start < 3000) {
-          if (stopRequestedRef.current) break;
-          const pkts = scanAllPackets(masterBufferRef.current, 'F1');
-          if (pkts.find(p => p.cmd === 0xF1 && (p.currentPacketNum === i || p.currentPacketNum === i - 1) && p.errorCode === '0001')) { confirmed = true; break; }
-          await new Promise(r => setTimeout(r, 20));
+        const chunk = firmwarePage(fileData, i);
+
+        // 僅接受頁碼相符的回應；逾時與 CheckSum 錯誤以指數退避重送同一頁
+        for (let attempt = 0; ; attempt++) {
+          setUpdateStatus(attempt > 0 ? `ID ${id} 重送封包 ${i}/${totalP} (${attempt}/${config.fwMaxRetries})` : `ID ${id} 寫入封包 ${i}/${totalP}`);
+          resetReceiveState();
+          await writeToTransport(buildF1HRequest(id, i, chunk), `F1H ID:${id} Pkt:${i}`);
+          const ack = await waitForFrame(p => p.cmd === 0xF1 && p.id === id && !p.frameError && p.currentPacketNum === i, config.fwAckTimeoutMs);
+          if (stopRequestedRef.current || ack?.errorCode === '0001') break;
+          const reason = ack ? `${ack.errorCode} ${ERROR_CODES[ack.errorCode] || ''}`.trim() : '逾時';
+          if (ack && CHECKSUM_ERRORS.includes(ack.errorCode)) setFwChecksumErrors(c => c + 1);
+          if (ack && !isRetryableF1Error(ack.errorCode)) throw new Error(`封包 ${i} 被拒絕: ${reason}`);
+          if (attempt >= config.fwMaxRetries) throw new Error(`封包 ${i} 重試 ${attempt} 次仍失敗 (${reason})`);
+          const delay = backoffDelay(config.fwBackoffMs, attempt + 1);
+          addLog(`[更新] ID ${id} 封包 ${i} ${reason}，${delay} ms 後重送`, 'error');
+          audit.retries++;
+          await new Promise(r => setTimeout(r, delay));
         }
         if (stopRequestedRef.current) break;
-        if (!confirmed) throw new Error(`封包 ${i} 寫入逾時`);
+
+        progress.confirmedPage = i; progress.updatedAt = new Date().toISOString();
+        audit.pagesSent++;
+        if (dbRef.current) await saveFirmwareProgress(dbRef.current, { ...progress });
         setUpdateProgress(Math.floor((i / totalP) * 100));
       }
 
-      if (!stopRequestedRef.current) {
-        setUpdateStatus('完成更新...');
-        await writeToSerial(buildF2HRequest(config.id), 'F2H');
-        setUpdateStatus('更新成功！');
-        setTimeout(() => setIsUpdating(false), 3000);
+      if (stopRequestedRef.current) return await finishAudit('cancelled');
+      setUpdateStatus(`ID ${id} 完成更新...`);
+      resetReceiveState();
+      await writeToTransport(buildF2HRequest(id), `F2H ID:${id}`);
+      const done = await waitForFrame(p => p.cmd === 0xF2 && p.id === id && !p.frameError, config.fwAckTimeoutMs);
+      if (done && CHECKSUM_ERRORS.includes(done.errorCode)) {
+        setFwChecksumErrors(c => c + 1);
+        throw new Error(`讀取器驗證映像檔 CheckSum 錯誤 (${done.errorCode} ${ERROR_CODES[done.errorCode] || ''})，請重新更新`);
+      }
+      if (done && done.errorCode !== '0001') throw new Error(`F2H 失敗: ${done.errorCode} ${ERROR_CODES[done.errorCode] || ''}`.trim());
+      if (dbRef.current) await clearFirmwareProgress(dbRef.current, id);
+      const verify = image.version ? await verifyFlashedVersion(id, image.version) : null;
+      audit.versionAfter = verify?.actual || undefined;
+      setUpdateStatus(done ? `ID ${id} 更新完成` : `ID ${id} 已送出 F2H (未收到回應)`);
+      return await finishAudit(!verify || !verify.actual ? 'unverified' : verify.ok ? 'success' : 'versionMismatch');
+    } catch (err: any) {
+      setUpdateStatus(`ID ${id} 失敗: ${err.message}`);
+      return await finishAudit('failed', err.message);
+    }
+  };
+
+  /**
+   * resumeFrom > 0 時略過 F0H，由最後確認的頁之後繼續寫入
+   */
+  const runFirmwareUpdate = async (isRestart = false, resumeFrom = 0) => {
+    if (!isConnected || !selectedFile) return;
+    if (fwImage && fwImage.errors.length > 0) { alert(`韌體檔無法使用: ${fwImage.errors.join('、')}`); return; }
+    if (isRestart) { stopRequestedRef.current = true; await new Promise(r => setTimeout(r, 200)); }
+    const run = ++fwRunRef.current;
+    setIsUpdating(true); setIsUpdatePaused(false); stopRequestedRef.current = false; setFwBatch([]);
+
+    try {
+      const fileData = new Uint8Array(await selectedFile.arrayBuffer());
+      const entry = await flashDevice(config.id, selectedFile, fileData, fwImage || inspectFirmware(fileData), resumeFrom);
+      // 暫停後重新開始時，狀態由新的更新接手
+      if (fwRunRef.current !== run) return;
+      if (entry.outcome === 'success' || entry.outcome === 'unverified') setTimeout(() => setIsUpdating(false), 3000);
+      else {
+        if (entry.outcome === 'cancelled') setUpdateStatus('已取消');
+        setIsUpdating(false);
+      }
+    } catch (err: any) {
+      // 例如選取後檔案已被移動或刪除
+      addLog(`[更新] 讀取韌體檔失敗: ${err.message}`, 'error');
+      setUpdateStatus(`讀取韌體檔失敗: ${err.message}`);
+      setIsUpdating(false);
+    }
+  };
+
+  /**
+   * 同一匯流排上依序更新多個站號，單台失敗不中斷整批
+   */
+  const runBatchFirmwareUpdate = async () => {
+    if (!isConnected || !selectedFile) return;
+    const ids = parseReaderIds(fwBatchIdsText);
+    if (ids.length === 0) { alert(`請輸入站號 (0~${MAX_READER_ID})`); return; }
+    if (fwImage && fwImage.errors.length > 0) { alert(`韌體檔無法使用: ${fwImage.errors.join('、')}`); return; }
+    setIsUpdating(true); setIsUpdatePaused(false); stopRequestedRef.current = false;
+    setFwBatch(ids.map(id => ({ id, status: 'pending' as const })));
+
+    try {
+      const fileData = new Uint8Array(await selectedFile.arrayBuffer());
+      const image = fwImage || inspectFirmware(fileData);
+      for (const id of ids) {
+        if (stopRequestedRef.current) {
+          // 中止後尚未開始的站號也留下稽核紀錄
+          const entry: FirmwareAuditEntry = { ...createFirmwareAudit(id, selectedFile, fileData, image), outcome: 'cancelled', error: '批次更新已中止', endedAt: new Date().toISOString() };
+          await recordFirmwareAudit(entry);
+          setFwBatch(prev => prev.map(b => b.id === id ? { ...b, status: 'done', entry } : b));
+          continue;
+        }
+        setFwBatch(prev => prev.map(b => b.id === id ? { ...b, status: 'running' } : b));
+        const entry = await flashDevice(id, selectedFile, fileData, image, 0, false);
+        setFwBatch(prev => prev.map(b => b.id === id ? { ...b, status: 'done', entry } : b));
       }
-    } catch (err: any) { setUpdateStatus(`失敗: ${err.message}`); setIsUpdating(false); }
-  };
-
-  const runSingleTest = async (cycle: number): Promise<ExtendedTestResult | null> => {
-    if (!port || !port.writable) return null;
-    masterBufferRef.current = new Uint8Array(0);
-    let txBuffer: Uint8Array;
-    switch(config.commandType) {
-        case '61H': txBuffer = build61HRequest(config.id, config.channel); break;
-        case '63H': txBuffer = build63HRequest(config.id, config.channel, config.userAddr, config.userLen); break;
-        case '35H': txBuffer = build35HRequest(config.id); break;
-        case '70H': txBuffer = build70HRequest(config.id, config.channel, config.power, config.writeAddr, config.writeLen, config.writeData); break;
-        default: txBuffer = build64HRequest(config.id, config.channel, config.power, config.timeoutMs, config.maxRecords);
+      setUpdateStatus(stopRequestedRef.current ? '批次更新已中止' : '批次更新完成');
+    } catch (err: any) {
+      addLog(`[更新] 讀取韌體檔失敗: ${err.message}`, 'error');
+      setUpdateStatus(`讀取韌體檔失敗: ${err.message}`);
     }
+    setIsUpdating(false);
+  };
+
+  /**
+   * 目前設定對應的指令定義；自訂指令已被刪除時為 undefined
+   */
+  const commandDefinition = (cfg: TestConfig): CommandDefinition | undefined => {
+    if (cfg.commandType !== 'CUSTOM') return COMMAND_REGISTRY[cfg.commandType];
+    const custom = customCommands.find(c => c.id === cfg.customCommandId);
+    return custom ? customCommandDefinition(custom) : undefined;
+  };
+
+  /**
+   * 70H 目標檢查：EPC 需為完整位元組 (奇數位會在轉換時被截斷)，場域內多張標籤時必須指定目標
+   */
+  const writeRefusal = (cfg: TestConfig): string | null => {
+    const epc = cfg.targetEpc || '';
+    if (epc.length % 2 !== 0) return `目標 EPC 需為偶數位十六進制 (目前 ${epc.length} 位)`;
+    if (!cfg.targetEpc && lastInventoryRef.current.length > 1) return `場域內有 ${lastInventoryRef.current.length} 張標籤，請先指定目標 EPC`;
+    return null;
+  };
+
+  const runSingleTest = async (cycle: number, cfg: TestConfig = config): Promise<ExtendedTestResult | null> => {
+    if (!transport) return null;
+    const def = commandDefinition(cfg);
+    if (!def) {
+      addLog('未選擇自訂指令或指令已被刪除', 'error');
+      return null;
+    }
+    const writeBank: MemoryBank = cfg.writeBank || 'epc';
+    const refusal = def.writesTag ? writeRefusal(cfg) : null;
+    if (refusal) {
+      // 拒絕寫入仍記錄為失敗的循環，避免統計中少算
+      addLog(`已拒絕寫入: ${refusal}`, 'error');
+      return {
+        timestamp: new Date().toISOString(), cycle, status: 'Failure', errorCode: 'N/A', errorMsg: `已拒絕寫入: ${refusal}`,
+        rawTx: '', rawRx: '', recordsFound: 0, cmdType: cfg.commandType, epcList: [], channel: cfg.channel,
+        configTimeout: cfg.timeoutMs, configPower: cfg.power, configMaxRecords: cfg.maxRecords,
+        targetEpc: cfg.targetEpc || undefined, bank: writeBank
+      };
+    }
+    resetReceiveState();
+    const txBuffer = buildRequest(def, cfg);
     
-    await writeToSerial(txBuffer, config.commandType);
-    const deadline = Date.now() + config.timeoutMs + 500; 
-    let isFinished = false, finalErrorCode = 'N/A', epcList: string[] = [], processedRaw = new Set<string>(), userData = '', fwVersion = '';
+    const timing: CycleTiming = { txAt: nowHr() };
+    await writeToTransport(txBuffer, def.shortLabel);
+    const deadline = Date.now() + cfg.timeoutMs + 500; 
+    let completion = null as CommandCompletion | null;
+    let frameErrors = 0, frameError = null as FrameError | null;
+    const data: CycleData = { epcList: [], tagReads: {}, userData: '', fwVersion: '' };
+    const ctx: ResponseContext = { data, log: addLog, markTag: at => { timing.firstTagAt ??= at; } };
 
     while (Date.now() < deadline && !stopRequestedRef.current && isConnected) {
-      const packets = scanAllPackets(masterBufferRef.current, config.commandType);
+      const packets = frameQueueRef.current.splice(0);
       packets.forEach(p => {
-        if (!processedRaw.has(p.raw)) {
-          processedRaw.add(p.raw);
-          addLog(`[RX] Raw: ${p.raw}`, 'rx');
-          if (p.cmd === 0x35) {
-            addLog(`[RX] 版本: ${p.fwVersion}`, 'rx');
-            isFinished = true; finalErrorCode = p.errorCode; fwVersion = p.fwVersion || '';
-          }
-          else if (p.cmd === 0x70) {
-            addLog(`[RX] 寫入結果: ${p.errorCode === '0001' || p.errorCode === '0000' ? '成功' : '失敗'}`, p.errorCode === '0001' || p.errorCode === '0000' ? 'info' : 'error');
-            isFinished = true; finalErrorCode = p.errorCode;
-          }
-          else if (p.cmd === 0x61) {
-            if (p.epc) {
-              addLog(`[RX] 標籤: ${p.epc}`, 'tag');
-              if (p.epc.replace(/\s/g, '').length > 0) addLog(`[RX] EPC (ASCII): ${hexToAscii(p.epc)}`, 'info');
-              if (!epcList.includes(p.epc)) epcList.push(p.epc);
-            }
-            if (p.errorCode !== 'N/A') { isFinished = true; finalErrorCode = p.errorCode; }
-          } else if (p.cmd === 0x63) {
-            if (p.userData) {
-              addLog(`[RX] User Data: ${p.userData}`, 'info');
-              if (p.userData.replace(/\s/g, '').length > 0) addLog(`[RX] User Data (ASCII): ${hexToAscii(p.userData)}`, 'info');
-              userData = p.userData;
-            }
-            if (p.errorCode !== 'N/A') { isFinished = true; finalErrorCode = p.errorCode; }
-          } else if (p.cmd === 0x64) {
-            if (p.status === 0x01) {
-              addLog(`[RX] 結束: 找到 ${p.count} 筆`, 'rx');
-              isFinished = true; finalErrorCode = p.errorCode;
-            }
-            else if (p.status === 0x00 && p.epc) {
-              addLog(`[RX] 標籤: ${p.epc}`, 'tag');
-              if (p.epc.replace(/\s/g, '').length > 0) addLog(`[RX] EPC (ASCII): ${hexToAscii(p.epc)}`, 'info');
-              if (!epcList.includes(p.epc)) epcList.push(p.epc);
-            }
-          }
+        if (p.frameError) {
+          // 錯誤封包內容不可信，不參與解析；CRC 錯誤優先於長度錯誤
+          frameErrors++;
+          if (frameError !== 'crc') frameError = p.frameError;
+          addLog(`[RX] ${FRAME_ERROR_MESSAGES[p.frameError]}: ${p.raw}`, 'error');
+          return;
         }
+        addLog(`[RX] Raw: ${p.raw}`, 'rx');
+        // 只處理與請求 CMD 相符的響應，完成後的封包不再解析
+        if (p.cmd !== def.cmd || completion) return;
+        completion = def.handle(p, ctx);
+        if (completion) timing.completedAt = p.receivedAt;
       });
-      if (isFinished) break;
+      if (completion) break;
       await new Promise(r => setTimeout(r, 50));
     }
+    const isFinished = completion !== null;
+    const finalErrorCode = completion ? completion.errorCode : 'N/A';
+    const { epcList, tagReads, userData, fwVersion } = data;
+
+    if (!isFinished && decoderRef.current.pending() > 0) {
+      frameErrors++;
+      if (!frameError) frameError = 'length';
+      addLog(`[RX] 封包不完整 (截斷): 殘留 ${decoderRef.current.pending()} Bytes`, 'error');
+    }
+    if (firstByteAtRef.current !== null) timing.firstByteAt = firstByteAtRef.current;
+
+    const isSuccess = isFinished && def.isSuccess(finalErrorCode);
+    let status: TestStatus = frameError === 'crc' ? 'CrcError' : frameError === 'length' ? 'FramingError' : isSuccess ? 'Success' : (isFinished ? 'Failure' : 'Timeout');
+    let errorMsg = frameError ? FRAME_ERROR_MESSAGES[frameError] : (completion?.message || ERROR_CODES[finalErrorCode] || '逾時');
+
+    // 讀取器回報成功時，再與預期標籤組比對
+    const expected = cfg.expectedEpcs || [];
+    const inventory = status === 'Success' && expected.length > 0 && def.inventory
+      ? gradeInventory(epcList, expected, def.inventory === 'single') : null;
+    if (inventory && inventory.grade !== 'complete') {
+      status = inventory.grade === 'missing' ? 'MissingTags' : 'UnexpectedTags';
+      errorMsg = inventory.grade === 'missing' ? `缺少 ${inventory.missing.length} 張預期標籤` : `出現 ${inventory.unexpected.length} 張非預期標籤`;
+      addLog(`[盤點] ${errorMsg}: ${(inventory.grade === 'missing' ? inventory.missing : inventory.unexpected).join(', ')}`, 'error');
+    }
 
-    const isSuccess = isFinished && (finalErrorCode === '0001' || finalErrorCode === '0000');
     return {
-      timestamp: new Date().toISOString(), cycle, status: isSuccess ? 'Success' : (isFinished ? 'Failure' : 'Timeout'),
-      errorCode: finalErrorCode, errorMsg: ERROR_CODES[finalErrorCode] || '逾時',
-      rawTx: uint8ArrayToHex(txBuffer), rawRx: uint8ArrayToHex(masterBufferRef.current),
-      recordsFound: epcList.length, cmdType: config.commandType, epcList,
-      configTimeout: config.timeoutMs, configPower: config.power, configMaxRecords: config.maxRecords,
-      userData: userData || undefined, fwVersion: fwVersion || undefined
+      timestamp: new Date().toISOString(), cycle, status,
+      errorCode: finalErrorCode, errorMsg,
+      rawTx: uint8ArrayToHex(txBuffer), rawRx: rxChunksRef.current.map(uint8ArrayToHex).filter(Boolean).join(' '),
+      recordsFound: epcList.length, cmdType: cfg.commandType, epcList, tagReads: epcList.length ? tagReads : undefined, channel: cfg.channel,
+      configTimeout: cfg.timeoutMs, configPower: cfg.power, configMaxRecords: cfg.maxRecords,
+      userData: userData || undefined, fwVersion: fwVersion || undefined, frameErrors: frameErrors || undefined,
+      targetEpc: def.writesTag && cfg.targetEpc ? cfg.targetEpc : undefined,
+      bank: def.bank === 'read' ? 'user' : def.bank === 'write' ? writeBank : undefined,
+      timing,
+      inventoryGrade: inventory?.grade,
+      missingEpcs: inventory?.missing.length ? inventory.missing : undefined,
+      unexpectedEpcs: inventory?.unexpected.length ? inventory.unexpected : undefined,
+      customCommand: cfg.commandType === 'CUSTOM' ? def.shortLabel : undefined
+    };
+  };
+
+  /**
+   * 指令編輯器的單次送出：不寫入測試紀錄，回傳 CMD 相符的第一個響應 (含錯誤封包)
+   */
+  const sendComposedFrame = async (frame: Uint8Array): Promise<DecodedPacket | null> => {
+    if (!isConnected || isTesting || isSingleTesting) return null;
+    setIsSingleTesting(true); stopRequestedRef.current = false;
+    resetReceiveState();
+    await writeToTransport(frame, `自訂 ${frame[3].toString(16).toUpperCase().padStart(2, '0')}H`);
+    const packet = await waitForFrame(p => (p.cmd === frame[3] && p.id === frame[4]) || !!p.frameError, config.timeoutMs + 500);
+    if (packet) addLog(`[RX] Raw: ${packet.raw}`, packet.frameError ? 'error' : 'rx');
+    else addLog('[RX] 自訂指令逾時', 'error');
+    setIsSingleTesting(false);
+    return packet;
+  };
+
+  const saveCustomCommand = (command: CustomCommand) => {
+    setCustomCommands(prev => prev.some(c => c.id === command.id) ? prev.map(c => c.id === command.id ? command : c) : [...prev, command]);
+  };
+
+  const removeCustomCommand = (command: CustomCommand) => {
+    setCustomCommands(prev => prev.filter(c => c.id !== command.id));
+    if (config.commandType === 'CUSTOM' && config.customCommandId === command.id) setConfig(prev => ({ ...prev, commandType: '64H', customCommandId: '' }));
+  };
+
+  const selectCustomCommand = (command: CustomCommand) => {
+    setConfig(prev => ({ ...prev, commandType: 'CUSTOM', customCommandId: command.id }));
+    setRunMode('single'); setIsComposerOpen(false);
+  };
+
+  const openSession = async (sessionId: number) => {
+    if (!dbRef.current) return;
+    viewSessionIdRef.current = sessionId;
+    setViewSessionId(sessionId);
+    const data = await getResultsBySession(dbRef.current, sessionId);
+    if (viewSessionIdRef.current === sessionId) setResults(data.reverse().slice(0, 1000));
+  };
+
+  // 固定參照，比較視窗以此為相依時不會每次渲染都重新讀取
+  const loadSessionResults = useCallback((sessionId: number): Promise<TestResult[]> =>
+    dbRef.current ? getResultsBySession(dbRef.current, sessionId) : Promise.resolve([]), []);
+
+  /**
+   * 建立新的工作階段並切換歷史紀錄頁至該階段
+   */
+  const beginSession = async (name: string): Promise<TestSession> => {
+    const session: TestSession = {
+      name, note: operatorNote, startedAt: new Date().toISOString(), runMode,
+      planName: runMode === 'plan' ? plan.name : undefined,
+      config: { ...config }, deviceId: config.id,
+      fwVersion: busMap?.devices.find(d => d.id === config.id)?.fwVersion,
+      total: 0, success: 0
     };
+    if (dbRef.current) session.id = await createSession(dbRef.current, session);
+    sessionRef.current = session;
+    manualCycleRef.current = 0;
+    viewSessionIdRef.current = session.id ?? null;
+    setViewSessionId(session.id ?? null);
+    setResults([]);
+    setSessions(prev => [session, ...prev]);
+    return session;
+  };
+
+  const saveSession = async (session: TestSession) => {
+    const snapshot = { ...session, endedAt: new Date().toISOString() };
+    Object.assign(session, snapshot);
+    setSessions(prev => prev.map(s => s.id === session.id ? snapshot : s));
+    if (dbRef.current && session.id !== undefined) await updateSession(dbRef.current, snapshot);
+  };
+
+  const removeSession = async (sessionId: number) => {
+    if (!dbRef.current || !confirm("確定刪除此工作階段與其所有紀錄？")) return;
+    await deleteSession(dbRef.current, sessionId);
+    if (sessionRef.current?.id === sessionId) sessionRef.current = null;
+    setSessions(prev => prev.filter(s => s.id !== sessionId));
+    if (viewSessionIdRef.current === sessionId) {
+      viewSessionIdRef.current = null;
+      setViewSessionId(null); setResults([]);
+    }
   };
 
   const processTestResult = async (res: ExtendedTestResult) => {
-    setResults(prev => [res, ...prev].slice(0, 1000));
+    const session = sessionRef.current;
+    if (session) {
+      res.sessionId = session.id;
+      session.total++;
+      if (res.passed ?? res.status === 'Success') session.success++;
+      if (res.fwVersion) session.fwVersion = res.fwVersion;
+    }
+    if (viewSessionIdRef.current === (session?.id ?? null)) setResults(prev => [res, ...prev].slice(0, 1000));
+    const latency = cycleLatency(res);
+    if (latency !== undefined) insertSorted(runLatenciesRef.current, latency);
+    if (isInventoryCommand(res.cmdType) && (res.status === 'Success' || res.inventoryGrade)) {
+      lastInventoryRef.current = res.epcList;
+      setLastInventory(res.epcList);
+    }
     setSummaryStats(prev => ({
       total: prev.total + 1,
-      success: prev.success + (res.status === 'Success' ? 1 : 0),
-      tagsFound: prev.tagsFound + res.recordsFound
+      success: prev.success + ((res.passed ?? res.status === 'Success') ? 1 : 0),
+      tagsFound: prev.tagsFound + res.recordsFound,
+      crcErrors: prev.crcErrors + (res.status === 'CrcError' ? 1 : 0),
+      framingErrors: prev.framingErrors + (res.status === 'FramingError' ? 1 : 0),
+      verifyTotal: prev.verifyTotal + (res.verify ? 1 : 0),
+      verifyMatch: prev.verifyMatch + (res.verify?.match ? 1 : 0),
+      gradedCycles: prev.gradedCycles + (res.inventoryGrade ? 1 : 0),
+      missingCycles: prev.missingCycles + (res.inventoryGrade === 'missing' ? 1 : 0),
+      unexpectedCycles: prev.unexpectedCycles + (res.inventoryGrade === 'unexpected' ? 1 : 0),
+      missingTags: prev.missingTags + (res.missingEpcs?.length || 0)
     }));
     if (dbRef.current) await saveResultToDB(dbRef.current, res);
   };
 
-  const handleSingleTest = async () => {
+  /**
+   * 依序執行測試計畫的所有步驟，回傳 false 代表應中止整個流程
+   */
+  const runPlanCycle = async (cycle: number, base: TestConfig = config): Promise<boolean> => {
+    for (let s = 0; s < plan.steps.length; s++) {
+      if (stopRequestedRef.current) return false;
+      const step = plan.steps[s];
+      if (step.delayMs > 0) await new Promise(r => setTimeout(r, step.delayMs));
+      addLog(`[計畫] 步驟 ${s + 1}/${plan.steps.length}: ${step.name || COMMAND_REGISTRY[step.commandType].label}`, 'system');
+      const res = await runSingleTest(cycle, resolveStepConfig(base, step));
+      if (!res) return false;
+      const passed = meetsExpectation(res.status, step.expect);
+      await processTestResult({ ...res, step: s + 1, stepName: step.name || undefined, expect: step.expect, passed });
+      if (!passed) {
+        addLog(`[計畫] 步驟 ${s + 1} 不符預期 (${EXPECTATION_LABELS[step.expect]}，實際 ${statusLabels[res.status]})`, 'error');
+        if (config.stopOnError) return false;
+      }
+    }
+    return true;
+  };
+
+  /**
+   * 寫入驗證：以 70H 寫入本次資料，再以 63H 讀回同一區段逐位元組比對
+   */
+  const runVerifyCycle = async (cycle: number, base: TestConfig = config): Promise<ExtendedTestResult | null> => {
+    const written = generateWriteData(base.writePattern || 'fixed', base.writeData, base.writeLen * 2, cycle);
+    // 63H 只能讀取 User 記憶體區，寫入驗證固定寫入 User 以便以同一區讀回
+    const writeRes = await runSingleTest(cycle, { ...base, commandType: '70H', writeBank: 'user', writeData: written });
+    if (!writeRes) return null;
+    // 寫入失敗時沒有資料可比對，不列入寫入完整性的分母
+    if (writeRes.status !== 'Success') return writeRes;
+
+    const readRes = await runSingleTest(cycle, { ...base, commandType: '63H', userAddr: base.writeAddr, userLen: base.writeLen });
+    if (!readRes) return null;
+    const readOk = readRes.status === 'Success';
+    const readBack = (readRes.userData || '').replace(/\s/g, '');
+    const mismatchBytes = readOk ? diffBytes(written, readBack) : [];
+    const match = readOk && mismatchBytes.length === 0;
+    if (match) addLog('[驗證] 寫入與讀回資料一致', 'info');
+    else if (readOk) addLog(`[驗證] 資料不一致: ${mismatchBytes.length} Byte (位置 ${mismatchBytes.join(', ')})`, 'error');
+
+    return {
+      ...writeRes,
+      status: readOk ? (match ? 'Success' : 'Mismatch') : readRes.status,
+      errorCode: readOk ? writeRes.errorCode : readRes.errorCode,
+      errorMsg: readOk ? (match ? writeRes.errorMsg : `資料不一致 (${mismatchBytes.length} Byte)`) : `讀回失敗: ${readRes.errorMsg}`,
+      rawTx: `${writeRes.rawTx} | ${readRes.rawTx}`, rawRx: `${writeRes.rawRx} | ${readRes.rawRx}`,
+      userData: readRes.userData,
+      frameErrors: ((writeRes.frameErrors || 0) + (readRes.frameErrors || 0)) || undefined,
+      verify: { written, readBack, mismatchBytes, match }
+    };
+  };
+
+  /**
+   * 功率掃描：由起始至結束功率逐點執行掃描指令，每點 cyclesPerPoint 次 (天線與異常中止同其他模式)，
+   * 循環序號接續 cycleRef；回傳 false 代表中途停止
+   */
+  const runPowerSweep = async (cyclesPerPoint: number, cycleRef = { current: 0 }): Promise<boolean> => {
+    const powers = buildSweepPowers(config.sweepStartPower, config.sweepEndPower, config.sweepStepPower);
+    for (let p = 0; p < powers.length; p++) {
+      addLog(`[掃描] ${config.sweepCommand} 功率 ${powers[p]} dbm (${p + 1}/${powers.length})`, 'system');
+      for (let i = 0; i < cyclesPerPoint; i++) {
+        if (stopRequestedRef.current || !isConnected) return false;
+        const cycle = ++cycleRef.current;
+        setCurrentCycle(cycle);
+        if (!(await runChannelCycle(cycle, { ...config, commandType: config.sweepCommand, power: powers[p] }))) return false;
+        if (config.intervalMs > 0) await new Promise(r => setTimeout(r, config.intervalMs));
+      }
+    }
+    return true;
+  };
+
+  /**
+   * 本循環要使用的天線：rotate 依循環序號輪替，iterate 依序使用全部天線
+   */
+  const cycleChannels = (cycle: number): number[] => {
+    const list = config.channels || [];
+    if (list.length < 2) return [config.channel];
+    return config.channelMode === 'iterate' ? list : [list[(Math.max(1, cycle) - 1) % list.length]];
+  };
+
+  /**
+   * 以本循環的每個天線執行一次 (計畫/驗證/單一指令)，回傳 false 代表應中止整個流程
+   */
+  const runChannelCycle = async (cycle: number, cfg: TestConfig = config): Promise<boolean> => {
+    for (const channel of cycleChannels(cycle)) {
+      const base = { ...cfg, channel };
+      if (runMode === 'plan') {
+        if (!(await runPlanCycle(cycle, base))) return false;
+      } else {
+        const res = runMode === 'verify' ? await runVerifyCycle(cycle, base) : await runSingleTest(cycle, base);
+        if (!res) continue;
+        await processTestResult(res);
+        if (config.stopOnError && res.status !== 'Success') return false;
+      }
+    }
+    return true;
+  };
+
+  const isCustomCommandMissing = (): boolean => {
+    if (runMode !== 'single' || commandDefinition(config)) return false;
+    alert("請先於指令編輯器選擇自訂指令");
+    return true;
+  };
+
+  const isSweepRangeInvalid = (): boolean => {
+    if (runMode !== 'sweep' || buildSweepPowers(config.sweepStartPower, config.sweepEndPower, config.sweepStepPower).length > 0) return false;
+    alert("功率掃描範圍設定錯誤 (間距需大於 0)");
+    return true;
+  };
+
+  /**
+   * 場域內可見多張標籤卻未指定 70H 目標時，拒絕開始寫入
+   */
+  const isWriteTargetMissing = (): boolean => {
+    const writeConfigs = runMode === 'verify' || (runMode === 'single' && !!commandDefinition(config)?.writesTag) ? [config]
+      : runMode === 'plan' ? plan.steps.filter(s => COMMAND_REGISTRY[s.commandType].writesTag).map(s => ({ ...config, ...s.params })) : [];
+    const refusal = writeConfigs.map(writeRefusal).find(Boolean);
+    if (refusal) addLog(`已拒絕寫入: ${refusal}`, 'error');
+    return !!refusal;
+  };
+
+  /**
+   * 63H 無法指定標籤，場域內有多張標籤時讀回的可能不是寫入的那一張，因此拒絕寫入驗證
+   */
+  const isVerifyTagAmbiguous = (): boolean => {
+    if (runMode !== 'verify' || lastInventoryRef.current.length <= 1) return false;
+    addLog(`已拒絕寫入驗證: 場域內有 ${lastInventoryRef.current.length} 張標籤，63H 讀回無法指定標籤，請只留一張標籤`, 'error');
+    return true;
+  };
+
+  /**
+   * 解析天線清單 (逗號分隔)；只有一個時視為單一天線
+   */
+  const applyChannelsText = () => {
+    const list = Array.from(new Set(channelsText.split(/[,\s]+/).map(v => parseInt(v)).filter(v => !isNaN(v) && v >= 0 && v <= 0xFF)));
+    const next = list.length > 1 ? { channels: list } : { channel: list[0] ?? config.channel, channels: [] };
+    setConfig(prev => ({ ...prev, ...next }));
+    setChannelsText((list.length > 0 ? list : [config.channel]).join(','));
+  };
+
+  const setExpectedEpcs = (epcs: string[]) => {
+    setConfig(prev => ({ ...prev, expectedEpcs: epcs }));
+    setExpectedText(epcs.join('\n'));
+  };
+
+  /**
+   * 學習盤點：以目前設定執行一次 64H (不比對、不記錄)，將讀到的標籤設為預期標籤組
+   */
+  const learnExpectedTags = async () => {
     if (!isConnected || isTesting || isSingleTesting) return;
-    setIsSingleTesting(true);
-    const res = await runSingleTest(0);
-    if (res) await processTestResult(res);
+    setIsSingleTesting(true); stopRequestedRef.current = false;
+    addLog("[盤點] 學習預期標籤組...", 'system');
+    const res = await runSingleTest(0, { ...config, commandType: '64H', expectedEpcs: [] });
+    setIsSingleTesting(false);
+    if (!res || res.status !== 'Success') { addLog(`[盤點] 學習失敗: ${res ? res.errorMsg : '未執行'}`, 'error'); return; }
+    const epcs = parseEpcList(res.epcList.join('\n'));
+    setExpectedEpcs(epcs);
+    addLog(`[盤點] 已設定 ${epcs.length} 張預期標籤`, 'info');
+  };
+
+  const handleExpectedImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    const epcs = parseEpcList(await file.text());
+    if (epcs.length === 0) { alert("檔案中沒有有效的 EPC"); return; }
+    setExpectedEpcs(epcs);
+  };
+
+  const handleSingleTest = async () => {
+    if (!isConnected || isTesting || isSingleTesting || isWriteTargetMissing() || isVerifyTagAmbiguous() || isSweepRangeInvalid() || isCustomCommandMissing()) return;
+    setIsSingleTesting(true); stopRequestedRef.current = false;
+    const session = sessionRef.current || await beginSession('手動測試');
+    if (runMode === 'sweep') {
+      // 單次：每個功率點各執行一次
+      await runPowerSweep(1, manualCycleRef);
+    } else {
+      await runChannelCycle(++manualCycleRef.current);
+    }
+    await saveSession(session);
     setIsSingleTesting(false);
   };
 
   const startTesting = async () => {
-    if (!isConnected) return;
+    if (!isConnected || isWriteTargetMissing() || isVerifyTagAmbiguous() || isSweepRangeInvalid() || isCustomCommandMissing()) return;
     setIsTesting(true); stopRequestedRef.current = false;
-    setResults([]); setLogs([]); setRawLogs([]);
-    setSummaryStats({ total: 0, success: 0, tagsFound: 0 });
-    if (dbRef.current) await clearDB(dbRef.current);
+    setLogs([]); setRawLogs([]);
+    setSummaryStats(EMPTY_STATS);
+    runLatenciesRef.current = [];
+    const session = await beginSession(runMode === 'plan' ? `計畫: ${plan.name}` : runMode === 'verify' ? '寫入驗證'
+      : runMode === 'sweep' ? `功率掃描 ${config.sweepCommand} ${config.sweepStartPower}~${config.sweepEndPower} dbm` : `壓力測試 ${config.commandType === 'CUSTOM' ? commandDefinition(config)?.label : config.commandType}`);
+    // 整個工作階段的收發都錄製下來 (重播本身即為擷取，不再錄製)；使用者已手動錄製時沿用，結束後也不停止
+    const autoCapture = config.transportType !== 'replay' && await startCapture(`工作階段 #${session.id ?? ''} ${session.name}`);
 
-    addLog(`啟動壓力測試流程 (共 ${config.totalCycles} 次)`, 'system');
+    if (runMode === 'sweep') {
+      addLog(`啟動功率掃描 ${config.sweepCommand} (${config.sweepStartPower} ~ ${config.sweepEndPower} dbm，間距 ${config.sweepStepPower}，每點 ${config.sweepCyclesPerPoint} 次)`, 'system');
+      await runPowerSweep(config.sweepCyclesPerPoint);
+      await saveSession(session);
+      if (autoCapture) await stopCapture();
+      sessionRef.current = null;
+      setIsTesting(false);
+      return;
+    }
+
+    addLog(runMode === 'plan'
+      ? `啟動測試計畫「${plan.name}」(共 ${config.totalCycles} 次，每次 ${plan.steps.length} 步驟)`
+      : `啟動${runMode === 'verify' ? '寫入驗證' : '壓力測試'}流程 (共 ${config.totalCycles} 次)`, 'system');
+    if (config.channels?.length > 1) addLog(`多天線${config.channelMode === 'iterate' ? '逐一' : '輪替'}: ${config.channels.join(', ')}`, 'system');
     for (let i = 1; i <= config.totalCycles; i++) {
       if (stopRequestedRef.current || !isConnected) break;
       setCurrentCycle(i);
-      const res = await runSingleTest(i);
-      if (res) {
-        await processTestResult(res);
-        if (config.stopOnError && res.status !== 'Success') break;
-      }
+      if (!(await runChannelCycle(i))) break;
       if (config.intervalMs > 0 && i < config.totalCycles) await new Promise(r => setTimeout(r, config.intervalMs));
     }
+    await saveSession(session);
+    if (autoCapture) await stopCapture();
+    sessionRef.current = null;
     setIsTesting(false);
   };
 
   const exportToCSV = async () => {
-    if (!dbRef.current) return;
-    const allData = await getAllResultsFromDB(dbRef.current);
+    if (!dbRef.current || viewSessionId === null) { alert("請先選擇工作階段"); return; }
+    const allData = await getResultsBySession(dbRef.current, viewSessionId);
     if (allData.length === 0) { alert("無可供導出的紀錄"); return; }
-    const headers = ["Timestamp", "Cycle", "Command", "Status", "ErrorCode", "ErrorMsg", "TagsFound", "EPCs", "UserData", "FWVersion"];
+    const headers = ["Timestamp", "Cycle", "Step", "StepName", "Command", "Status", "Expect", "Passed", "ErrorCode", "ErrorMsg", "TagsFound", "EPCs", "Bank", "MemoryData", "FWVersion", "Written", "ReadBack", "MismatchBytes", "TxAt", "FirstByteMs", "FirstTagMs", "LatencyMs", "InventoryGrade", "MissingEPCs", "UnexpectedEPCs", "Channel", "Power", "CustomCommand"];
     const rows = allData.map(r => [
-      r.timestamp, r.cycle, r.cmdType, r.status, r.errorCode, r.errorMsg, r.recordsFound, 
-      r.epcList ? r.epcList.join(';') : '', r.userData || '', r.fwVersion || ''
+      r.timestamp, r.cycle, r.step ?? '', r.stepName || '', r.cmdType, r.status, r.expect || '', r.passed ?? '', r.errorCode, r.errorMsg, r.recordsFound, 
+      r.epcList ? r.epcList.join(';') : '', r.bank || '', r.userData || '', r.fwVersion || '',
+      r.verify?.written || '', r.verify?.readBack || '', r.verify ? r.verify.mismatchBytes.join(';') : '',
+      r.timing ? new Date(r.timing.txAt).toISOString() : '',
+      r.timing?.firstByteAt !== undefined ? (r.timing.firstByteAt - r.timing.txAt).toFixed(1) : '',
+      r.timing?.firstTagAt !== undefined ? (r.timing.firstTagAt - r.timing.txAt).toFixed(1) : '',
+      cycleLatency(r) ?? '',
+      r.inventoryGrade || '', r.missingEpcs ? r.missingEpcs.join(';') : '', r.unexpectedEpcs ? r.unexpectedEpcs.join(';') : '',
+      r.channel ?? '', r.configPower ?? '', r.customCommand || ''
     ]);
-    const csvContent = [headers, ...rows].map(e => e.join(",")).join("\n");
+    const csvContent = [headers, ...rows].map(e => e.map(csvField).join(",")).join("\n");
     const blob = new Blob(["\ufeff" + csvContent], { type: 'text/csv;charset=utf-8;' });
     const url = URL.createObjectURL(blob);
     const link = document.createElement("a");
@@ -393,7 +1270,24 @@ const App: React.FC = () => {
     link.click(); URL.revokeObjectURL(url);
   };
 
+  const viewedSession = sessions.find(s => s.id === viewSessionId);
+  const runLatency = summarizeLatency(runLatenciesRef.current);
+  const viewedLatency = summarizeLatency(computeSessionStats(results).latencies);
+  const formatLatency = (v: number) => `${v.toFixed(1)} ms`;
+  const latencyCells = (l: LatencySummary) => [
+    { label: 'MIN', value: l.min }, { label: 'AVG', value: l.avg }, { label: 'P50', value: l.p50 },
+    { label: 'P95', value: l.p95 }, { label: 'P99', value: l.p99 }, { label: 'MAX', value: l.max }
+  ];
+
   const stabilityRate = summaryStats.total > 0 ? Math.round((summaryStats.success / summaryStats.total) * 100) : 0;
+  const integrityRate = summaryStats.verifyTotal > 0 ? Math.round((summaryStats.verifyMatch / summaryStats.verifyTotal) * 100) : 0;
+
+  const selectedCommand = commandDefinition(config);
+  const runModeLabel = runMode === 'plan' ? `測試計畫: ${plan.name}` : runMode === 'verify' ? '寫入驗證 (70H → 63H)' : runMode === 'sweep' ? `功率掃描 (${config.sweepCommand})`
+    : selectedCommand ? selectedCommand.label : commandLabel(config.commandType);
+  const shortRunModeLabel = runMode === 'plan' ? '計畫' : runMode === 'verify' ? '驗證' : runMode === 'sweep' ? '掃描' : selectedCommand ? selectedCommand.shortLabel : commandLabel(config.commandType, true);
+  // 設定面板顯示參數欄位的指令
+  const panelCommand = runMode === 'verify' ? COMMAND_REGISTRY['70H'] : runMode === 'single' ? selectedCommand : undefined;
 
   return (
     <div className="bg-slate-50 min-h-screen text-slate-700 font-sans flex flex-col h-[100dvh] overflow-hidden">
@@ -406,6 +1300,9 @@ const App: React.FC = () => {
               <span className={`text-[10px] font-bold px-2 py-0.5 rounded-full ${isConnected ? 'bg-emerald-50 text-emerald-600' : 'bg-slate-100 text-slate-400'}`}>
                 {isConnected ? '● 連線中' : '○ 未連線'}
               </span>
+              <button onClick={() => setIsProfileOpen(true)} className="text-[10px] font-bold px-2 py-0.5 rounded-full bg-indigo-50 text-indigo-600 flex items-center gap-1 max-w-[160px]" title="切換設定檔">
+                <SlidersHorizontal className="w-3 h-3 shrink-0" /><span className="truncate">{profile.name}</span>{isProfileDirty && <span className="text-amber-500">*</span>}
+              </button>
             </div>
           </div>
         </div>
@@ -421,14 +1318,50 @@ const App: React.FC = () => {
                 <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">成功率</span>
                 <span className="text-base font-black tabular-nums text-slate-600">{summaryStats.success}/{summaryStats.total}</span>
              </div>
+             {summaryStats.verifyTotal > 0 && (
+               <>
+                 <div className="w-px h-6 bg-slate-200"></div>
+                 <div className="flex flex-col items-center">
+                    <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">寫入完整性</span>
+                    <span className={`text-base font-black tabular-nums ${integrityRate >= 99 ? 'text-emerald-500' : 'text-rose-500'}`}>{integrityRate}%</span>
+                 </div>
+               </>
+             )}
+             {summaryStats.gradedCycles > 0 && (
+               <>
+                 <div className="w-px h-6 bg-slate-200"></div>
+                 <div className="flex flex-col items-center" title={`缺少標籤 ${summaryStats.missingCycles} 次 (共 ${summaryStats.missingTags} 張)，非預期標籤 ${summaryStats.unexpectedCycles} 次`}>
+                    <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">盤點完整</span>
+                    <span className={`text-base font-black tabular-nums ${summaryStats.missingCycles + summaryStats.unexpectedCycles === 0 ? 'text-emerald-500' : 'text-rose-500'}`}>{summaryStats.gradedCycles - summaryStats.missingCycles - summaryStats.unexpectedCycles}/{summaryStats.gradedCycles}</span>
+                 </div>
+               </>
+             )}
+             {runLatency && (
+               <>
+                 <div className="w-px h-6 bg-slate-200"></div>
+                 <div className="flex flex-col items-center" title={latencyCells(runLatency).map(c => `${c.label} ${formatLatency(c.value)}`).join(' / ')}>
+                    <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">延遲 P50/P95</span>
+                    <span className="text-base font-black tabular-nums text-slate-600">{Math.round(runLatency.p50)}/{Math.round(runLatency.p95)}<span className="text-[10px] text-slate-400 ml-0.5">ms</span></span>
+                 </div>
+               </>
+             )}
+             {(summaryStats.crcErrors > 0 || summaryStats.framingErrors > 0) && (
+               <>
+                 <div className="w-px h-6 bg-slate-200"></div>
+                 <div className="flex flex-col items-center">
+                    <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">鏈路錯誤</span>
+                    <span className="text-base font-black tabular-nums text-amber-500">{summaryStats.crcErrors}/{summaryStats.framingErrors}</span>
+                 </div>
+               </>
+             )}
           </div>
         </div>
 
         <div className="flex items-center gap-2">
            {!isConnected ? (
-             <button onClick={connectSerial} className="h-10 px-4 bg-slate-900 text-white rounded-lg font-black text-xs flex items-center gap-2 active:scale-95 transition-all"><Link className="w-4 h-4" /> 連線</button>
+             <button onClick={() => connectDevice()} className="h-10 px-4 bg-slate-900 text-white rounded-lg font-black text-xs flex items-center gap-2 active:scale-95 transition-all"><Link className="w-4 h-4" /> 連線</button>
            ) : (
-             <button onClick={disconnectSerial} className="h-10 px-4 bg-rose-50 text-rose-600 border border-rose-100 rounded-lg font-black text-xs flex items-center gap-2 active:scale-95 transition-all"><Link2Off className="w-4 h-4" /> 斷開</button>
+             <button onClick={disconnectDevice} className="h-10 px-4 bg-rose-50 text-rose-600 border border-rose-100 rounded-lg font-black text-xs flex items-center gap-2 active:scale-95 transition-all"><Link2Off className="w-4 h-4" /> 斷開</button>
            )}
            <button onClick={() => { initialBaudRateRef.current = config.baudRate; setIsAdvConfigOpen(true); }} className="w-10 h-10 flex items-center justify-center bg-white rounded-lg border border-slate-200 text-slate-600"><Settings className="w-5 h-5" /></button>
         </div>
@@ -443,7 +1376,13 @@ const App: React.FC = () => {
                       <button onClick={() => setLogView('trace')} className={`text-xs font-black px-4 py-2 rounded-lg transition-colors ${logView === 'trace' ? 'bg-indigo-600 text-white' : 'text-slate-400'}`}>追蹤日誌</button>
                       <button onClick={() => setLogView('raw')} className={`text-xs font-black px-4 py-2 rounded-lg transition-colors ${logView === 'raw' ? 'bg-emerald-600 text-white' : 'text-slate-400'}`}>原始數據</button>
                    </div>
-                   <button onClick={() => logView === 'trace' ? setLogs([]) : setRawLogs([])} className="p-2 text-slate-500 hover:text-white transition-colors"><Trash2 className="w-5 h-5" /></button>
+                   <div className="flex items-center gap-1">
+                      <button onClick={() => recordingId !== null ? stopCapture() : startCapture()} className={`text-xs font-black px-3 py-2 rounded-lg flex items-center gap-1.5 transition-colors ${recordingId !== null ? 'bg-rose-600 text-white' : 'text-slate-400 hover:text-white'}`}><Circle className={`w-3 h-3 ${recordingId !== null ? 'fill-white animate-pulse' : ''}`} /> {recordingId !== null ? '停止錄製' : '錄製'}</button>
+                      <button onClick={() => setInspectorHex('')} className="p-2 text-slate-500 hover:text-white transition-colors"><Microscope className="w-5 h-5" /></button>
+                      <button onClick={() => setIsComposerOpen(true)} className="p-2 text-slate-500 hover:text-white transition-colors"><Wrench className="w-5 h-5" /></button>
+                      <button onClick={() => setIsCaptureOpen(true)} className="p-2 text-slate-500 hover:text-white transition-colors"><FolderOpen className="w-5 h-5" /></button>
+                      <button onClick={() => logView === 'trace' ? setLogs([]) : setRawLogs([])} className="p-2 text-slate-500 hover:text-white transition-colors"><Trash2 className="w-5 h-5" /></button>
+                   </div>
                 </div>
                 <div className="flex-1 p-4 font-mono text-sm overflow-y-auto custom-scrollbar leading-relaxed bg-[#0a0f18]">
                    {logView === 'trace' ? (
@@ -455,9 +1394,9 @@ const App: React.FC = () => {
                      ))
                    ) : (
                      rawLogs.map((l, i) => (
-                        <div key={i} className="mb-2 border-l-2 border-slate-800 pl-3">
-                           <div className="flex items-center mb-1"><span className="text-white/20 text-[10px] mr-2">{l.timestamp}</span><span className={`px-2 rounded text-[9px] font-black ${l.type === 'tx' ? 'bg-indigo-900 text-indigo-400' : 'bg-emerald-900 text-emerald-400'}`}>{l.type === 'tx' ? 'TX' : 'RX'}</span></div>
-                           <span className="text-slate-300 break-all text-xs tracking-widest">{l.data}</span>
+                        <div key={i} onClick={() => setInspectorHex(l.data)} title="點選以解析封包" className={`mb-2 border-l-2 pl-3 cursor-pointer hover:bg-white/5 ${l.error ? 'border-rose-500 bg-rose-950/40' : 'border-slate-800'}`}>
+                           <div className="flex items-center mb-1"><span className="text-white/20 text-[10px] mr-2">{l.timestamp}</span><span className={`px-2 rounded text-[9px] font-black ${l.type === 'tx' ? 'bg-indigo-900 text-indigo-400' : 'bg-emerald-900 text-emerald-400'}`}>{l.type === 'tx' ? 'TX' : 'RX'}</span>{l.error && <span className="ml-2 px-2 rounded text-[9px] font-black bg-rose-900 text-rose-300">{l.error}</span>}</div>
+                           <span className={`${l.error ? 'text-rose-300' : 'text-slate-300'} break-all text-xs tracking-widest`}>{l.data}</span>
                         </div>
                      ))
                    )}
@@ -472,16 +1411,23 @@ const App: React.FC = () => {
                       <div className="relative shrink-0 flex-1 sm:flex-initial">
                          <button onClick={(e) => { e.stopPropagation(); setIsCmdMenuOpen(!isCmdMenuOpen); }} className="flex items-center justify-between gap-2 px-4 h-11 bg-slate-900 text-white rounded-lg font-black text-xs shadow-md w-full">
                            <span className="truncate max-w-[120px] sm:max-w-none">
-                             <span className="sm:hidden">{shortCommandLabels[config.commandType]}</span>
-                             <span className="hidden sm:inline">{commandLabels[config.commandType]}</span>
+                             <span className="sm:hidden">{shortRunModeLabel}</span>
+                             <span className="hidden sm:inline">{runModeLabel}</span>
                            </span>
                            <ChevronDown className="w-3 h-3 shrink-0" />
                          </button>
                          {isCmdMenuOpen && (
                            <div className="absolute bottom-full left-0 mb-3 w-[280px] bg-white border border-slate-200 rounded-xl shadow-2xl z-[100] overflow-hidden">
-                             {(['64H', '61H', '63H', '70H', '35H'] as CommandType[]).map(t => (
-                               <button key={t} onClick={() => { setConfig({...config, commandType: t}); setIsCmdMenuOpen(false); }} className="w-full py-4 px-5 text-xs font-black text-left hover:bg-slate-50 border-b border-slate-50 last:border-0">{commandLabels[t]}</button>
+                             {COMMAND_TYPES.map(t => (
+                               <button key={t} onClick={() => { setConfig({...config, commandType: t}); setRunMode('single'); setIsCmdMenuOpen(false); }} className="w-full py-4 px-5 text-xs font-black text-left hover:bg-slate-50 border-b border-slate-50 last:border-0">{COMMAND_REGISTRY[t].label}</button>
                              ))}
+                             {customCommands.map(c => (
+                               <button key={c.id} onClick={() => { selectCustomCommand(c); setIsCmdMenuOpen(false); }} className="w-full py-4 px-5 text-xs font-black text-left hover:bg-slate-50 border-b border-slate-50 truncate">自訂: {customCommandLabel(c)}</button>
+                             ))}
+                             <button onClick={() => { setIsComposerOpen(true); setIsCmdMenuOpen(false); }} className="w-full py-4 px-5 text-xs font-black text-left text-slate-600 hover:bg-slate-50 border-b border-slate-50 flex items-center gap-2"><Wrench className="w-4 h-4" /> 自訂指令編輯器</button>
+                             <button onClick={() => { setRunMode('verify'); setIsCmdMenuOpen(false); }} className="w-full py-4 px-5 text-xs font-black text-left text-emerald-600 hover:bg-emerald-50 border-b border-slate-50 flex items-center gap-2"><ShieldCheck className="w-4 h-4" /> 寫入驗證 (70H → 63H)</button>
+                             <button onClick={() => { setRunMode('sweep'); setIsCmdMenuOpen(false); }} className="w-full py-4 px-5 text-xs font-black text-left text-amber-600 hover:bg-amber-50 border-b border-slate-50 flex items-center gap-2"><Gauge className="w-4 h-4" /> 射頻功率掃描</button>
+                             <button onClick={() => { setRunMode('plan'); setIsCmdMenuOpen(false); }} className="w-full py-4 px-5 text-xs font-black text-left text-indigo-600 hover:bg-indigo-50 flex items-center gap-2"><ListOrdered className="w-4 h-4" /> 多步驟測試計畫</button>
                            </div>
                          )}
                       </div>
@@ -507,76 +1453,109 @@ const App: React.FC = () => {
                         { label: '回應逾時 (ms)', key: 'timeoutMs', type: 'number' },
                         { label: '標籤上限', key: 'maxRecords', type: 'number' },
                         { label: '射頻功率 (dbm)', key: 'power', type: 'number' }
-                      ].map(item => (
+                      ].filter(item => runMode !== 'sweep' || (item.key !== 'totalCycles' && item.key !== 'power')).map(item => (
                         <div key={item.key} className="bg-slate-50 p-3 rounded-lg border border-slate-100 flex flex-col">
                            <label className="text-[10px] font-black text-slate-400 uppercase mb-1">{item.label}</label>
                            <input type="number" value={(config as any)[item.key]} onChange={e => setConfig({...config, [item.key]: parseInt(e.target.value) || 0})} className="w-full bg-transparent font-black text-slate-800 outline-none text-sm" />
                         </div>
                       ))}
                       
-                      {/* 動態顯示 63H 指令專屬欄位 */}
-                      {config.commandType === '63H' && (
-                        <>
-                           <div className="bg-indigo-50/50 p-3 rounded-lg border border-indigo-100 flex flex-col animate-in fade-in slide-in-from-top-2 duration-300">
-                              <label className="text-[10px] font-black text-indigo-400 uppercase mb-1">起始位址 (Hex)</label>
-                              <input 
-                                type="text" 
-                                value={config.userAddr} 
-                                onChange={e => setConfig({...config, userAddr: e.target.value.toUpperCase().replace(/[^0-9A-F]/g, '').substring(0,4)})} 
-                                className="w-full bg-transparent font-black text-indigo-600 outline-none text-sm" 
-                                placeholder="0000"
-                              />
-                           </div>
-                           <div className="bg-indigo-50/50 p-3 rounded-lg border border-indigo-100 flex flex-col animate-in fade-in slide-in-from-top-2 duration-400">
-                              <label className="text-[10px] font-black text-indigo-400 uppercase mb-1">讀取長度 (Word)</label>
-                              <input 
-                                type="number" 
-                                value={config.userLen} 
-                                onChange={e => setConfig({...config, userLen: Math.max(1, parseInt(e.target.value) || 1)})} 
-                                className="w-full bg-transparent font-black text-indigo-600 outline-none text-sm" 
-                              />
+                      <div className="col-span-2 bg-slate-50 p-3 rounded-lg border border-slate-100 flex flex-col">
+                         <div className="flex items-center justify-between mb-1">
+                            <label className="text-[10px] font-black text-slate-400 uppercase">天線 (逗號分隔多個)</label>
+                            {config.channels?.length > 1 && (
+                              <select value={config.channelMode || 'rotate'} onChange={e => setConfig({...config, channelMode: e.target.value as ChannelMode})} className="text-[10px] font-black text-indigo-600 bg-white border border-indigo-100 rounded px-1 outline-none cursor-pointer">
+                                 <option value="rotate">每循環輪替</option>
+                                 <option value="iterate">每循環逐一</option>
+                              </select>
+                            )}
+                         </div>
+                         <input type="text" value={channelsText} onChange={e => setChannelsText(e.target.value.replace(/[^0-9,\s]/g, ''))} onBlur={applyChannelsText} className="w-full bg-transparent font-black text-slate-800 outline-none text-sm" placeholder="0,1,2,3" />
+                      </div>
+
+                      {/* 功率掃描指令與範圍 */}
+                      {runMode === 'sweep' && (
+                        <div className="bg-amber-50/50 p-3 rounded-lg border border-amber-100 flex flex-col">
+                           <label className="text-[10px] font-black text-amber-500 uppercase mb-1">掃描指令</label>
+                           <select value={config.sweepCommand} onChange={e => setConfig({...config, sweepCommand: e.target.value as SweepCommandType})} className="w-full bg-transparent font-black text-amber-700 outline-none text-sm cursor-pointer">
+                              {SWEEP_COMMAND_TYPES.map(t => <option key={t} value={t}>{COMMAND_REGISTRY[t].shortLabel}</option>)}
+                           </select>
+                        </div>
+                      )}
+                      {runMode === 'sweep' && ([
+                        { label: '起始功率 (dbm)', key: 'sweepStartPower' },
+                        { label: '結束功率 (dbm)', key: 'sweepEndPower' },
+                        { label: '功率間距 (dbm)', key: 'sweepStepPower' },
+                        { label: '每點次數', key: 'sweepCyclesPerPoint' }
+                      ] as { label: string; key: keyof Pick<TestConfig, 'sweepStartPower' | 'sweepEndPower' | 'sweepStepPower' | 'sweepCyclesPerPoint'> }[]).map(item => (
+                        <div key={item.key} className="bg-amber-50/50 p-3 rounded-lg border border-amber-100 flex flex-col">
+                           <label className="text-[10px] font-black text-amber-500 uppercase mb-1">{item.label}</label>
+                           <input type="number" value={config[item.key]} onChange={e => setConfig({...config, [item.key]: Math.max(item.key === 'sweepCyclesPerPoint' ? 1 : 0, parseInt(e.target.value) || 0)})} className="w-full bg-transparent font-black text-amber-700 outline-none text-sm" />
+                        </div>
+                      ))}
+
+                      {/* 測試計畫摘要 */}
+                      {runMode === 'plan' && (
+                        <div className="col-span-2 bg-indigo-50/50 p-3 rounded-lg border border-indigo-100 flex flex-col">
+                           <div className="flex items-center justify-between mb-1">
+                              <label className="text-[10px] font-black text-indigo-400 uppercase">{plan.name} ({plan.steps.length} 步驟)</label>
+                              <button onClick={() => setIsPlanEditorOpen(true)} className="text-[10px] font-black text-indigo-600 px-2 py-0.5 bg-white rounded border border-indigo-100">編輯計畫</button>
                            </div>
-                        </>
+                           <div className="text-[10px] font-bold text-indigo-600 truncate">{plan.steps.map(s => s.commandType).join(' → ')}</div>
+                        </div>
                       )}
 
-                      {/* 動態顯示 70H 指令專屬欄位 */}
-                      {config.commandType === '70H' && (
+                      {/* 指令專屬欄位 (由指令定義產生)；寫入驗證使用 70H 的欄位 */}
+                      {panelCommand && (
                         <>
-                           <div className="bg-emerald-50/50 p-3 rounded-lg border border-emerald-100 flex flex-col animate-in fade-in slide-in-from-top-2 duration-300">
-                              <label className="text-[10px] font-black text-emerald-400 uppercase mb-1">寫入位址 (Hex)</label>
-                              <input 
-                                type="text" 
-                                value={config.writeAddr} 
-                                onChange={e => setConfig({...config, writeAddr: e.target.value.toUpperCase().replace(/[^0-9A-F]/g, '').substring(0,4)})} 
-                                className="w-full bg-transparent font-black text-emerald-600 outline-none text-sm" 
-                                placeholder="0002"
-                              />
-                           </div>
-                           <div className="bg-emerald-50/50 p-3 rounded-lg border border-emerald-100 flex flex-col animate-in fade-in slide-in-from-top-2 duration-400">
-                              <label className="text-[10px] font-black text-emerald-400 uppercase mb-1">寫入長度 (Word)</label>
-                              <input 
-                                type="number" 
-                                value={config.writeLen} 
-                                onChange={e => setConfig({...config, writeLen: Math.max(1, Math.min(6, parseInt(e.target.value) || 1))})} 
-                                className="w-full bg-transparent font-black text-emerald-600 outline-none text-sm" 
-                              />
-                           </div>
-                           <div className="col-span-2 bg-emerald-50/50 p-3 rounded-lg border border-emerald-100 flex flex-col animate-in fade-in slide-in-from-top-2 duration-500">
-                              <label className="text-[10px] font-black text-emerald-400 uppercase mb-1">寫入資料 (Hex)</label>
-                              <input 
-                                type="text" 
-                                value={config.writeData} 
-                                onChange={e => {
-                                  const val = e.target.value.toUpperCase().replace(/[^0-9A-F]/g, '');
-                                  setConfig({...config, writeData: val});
-                                }} 
-                                className="w-full bg-transparent font-black text-emerald-600 outline-none text-sm" 
-                                placeholder="FFFF..."
-                              />
-                              <div className="text-[9px] text-emerald-400 mt-1 font-bold">目前長度: {config.writeData.length / 2} Byte (需為 {config.writeLen * 2} Byte)</div>
-                           </div>
+                           {runMode === 'verify' && (
+                             <div className="bg-emerald-50/50 p-3 rounded-lg border border-emerald-100 flex flex-col">
+                                <label className="text-[10px] font-black text-emerald-400 uppercase mb-1">資料樣式</label>
+                                <select value={config.writePattern || 'fixed'} onChange={e => setConfig({...config, writePattern: e.target.value as WritePattern})} className="w-full bg-transparent font-black text-emerald-600 outline-none text-sm cursor-pointer">
+                                   {(Object.keys(writePatternLabels) as WritePattern[]).map(p => <option key={p} value={p}>{writePatternLabels[p]}</option>)}
+                                </select>
+                             </div>
+                           )}
+                           {runMode === 'verify' && (
+                             <div className="bg-emerald-50/50 p-3 rounded-lg border border-emerald-100 flex flex-col">
+                                <label className="text-[10px] font-black text-emerald-400 uppercase mb-1">記憶體區</label>
+                                <span className="font-black text-emerald-600 text-sm">{MEMORY_BANK_LABELS.user}</span>
+                                <div className="text-[9px] mt-1 font-bold text-emerald-400">63H 只能讀回 User</div>
+                             </div>
+                           )}
+                           {panelCommand.params.filter(field => !field.shared && !(runMode === 'verify' && field.key === 'writeBank')).map(field => (
+                             <CommandParamInput key={field.key} field={field} accent={panelCommand.accent} config={config} lastInventory={lastInventory} onChange={patch => setConfig(prev => ({ ...prev, ...patch }))} />
+                           ))}
                         </>
                       )}
+
+                      {/* 64H/61H 預期標籤組 */}
+                      {((runMode === 'single' && isInventoryCommand(config.commandType)) || (runMode === 'plan' && plan.steps.some(s => isInventoryCommand(s.commandType)))) && (
+                        <div className="col-span-2 bg-amber-50/50 p-3 rounded-lg border border-amber-100 flex flex-col">
+                           <div className="flex items-center justify-between mb-1 gap-1">
+                              <label className="text-[10px] font-black text-amber-500 uppercase">預期標籤組 ({(config.expectedEpcs || []).length} 張{(config.expectedEpcs || []).length === 0 ? '，不比對' : ''})</label>
+                              <div className="flex gap-1">
+                                 <button onClick={learnExpectedTags} disabled={!isConnected || isTesting || isSingleTesting} className="text-[10px] font-black text-amber-600 px-2 py-0.5 bg-white rounded border border-amber-100 disabled:opacity-50">學習</button>
+                                 <input type="file" accept=".txt,.csv,text/plain,text/csv" onChange={handleExpectedImport} className="hidden" id="expected-file" />
+                                 <label htmlFor="expected-file" className="text-[10px] font-black text-amber-600 px-2 py-0.5 bg-white rounded border border-amber-100 cursor-pointer">匯入</label>
+                                 <button onClick={() => setExpectedEpcs([])} className="text-[10px] font-black text-slate-400 px-2 py-0.5 bg-white rounded border border-slate-100">清除</button>
+                              </div>
+                           </div>
+                           <textarea
+                             value={expectedText}
+                             onChange={e => setExpectedText(e.target.value.toUpperCase())}
+                             onBlur={() => setExpectedEpcs(parseEpcList(expectedText))}
+                             rows={3}
+                             className="w-full bg-transparent font-mono font-bold text-amber-700 outline-none text-xs resize-none custom-scrollbar"
+                             placeholder="每行一個 EPC (Hex)"
+                           />
+                        </div>
+                      )}
+
+                      <div className="col-span-2 bg-slate-50 p-3 rounded-lg border border-slate-100 flex flex-col">
+                         <label className="text-[10px] font-black text-slate-400 uppercase mb-1">作業備註 (記錄於工作階段)</label>
+                         <input type="text" value={operatorNote} onChange={e => setOperatorNote(e.target.value)} className="w-full bg-transparent font-black text-slate-800 outline-none text-sm" placeholder="作業員 / 批號 / 測試條件" />
+                      </div>
                    </div>
                 </div>
              </div>
@@ -584,41 +1563,148 @@ const App: React.FC = () => {
         )}
 
         {activeTab === 'update' && (
-          <div className="flex-1 p-6 flex flex-col items-center justify-center">
+          <div className="flex-1 p-6 flex flex-col items-center gap-6 overflow-y-auto custom-scrollbar">
              <div className="w-full max-w-md bg-white p-8 rounded-3xl border border-slate-200 shadow-xl">
                 <h3 className="text-lg font-black mb-6 flex items-center gap-3 uppercase tracking-widest"><Cpu className="text-indigo-600 w-5 h-5" /> 韌體更新</h3>
                 <input type="file" accept=".bin" onChange={handleFileChange} className="hidden" id="bin-file" disabled={isUpdating} />
                 <label htmlFor="bin-file" className={`block border-2 border-dashed p-10 rounded-2xl text-center transition-all ${selectedFile ? 'border-indigo-100 bg-indigo-50/20' : 'border-slate-100 hover:border-indigo-200'} cursor-pointer relative`}>
                    <FileUp className={`w-10 h-10 mx-auto mb-3 ${selectedFile ? 'text-indigo-500' : 'text-slate-300'}`} />
                    <span className="text-sm font-bold text-slate-600 block truncate">{selectedFile ? selectedFile.name : '選擇 .bin 檔案'}</span>
-                   {fileVersion && <span className="mt-2 text-[10px] font-black bg-indigo-50 text-indigo-600 px-3 py-1 rounded-full inline-block">版本: {fileVersion}</span>}
+                   {fwImage && <span className="mt-2 text-[10px] font-black bg-indigo-50 text-indigo-600 px-3 py-1 rounded-full inline-block">版本: {fwImage.version || '未知'}</span>}
                 </label>
+                {fwImage && (
+                  <div className="mt-4 space-y-2">
+                     <div className="grid grid-cols-4 gap-2 text-center">
+                       {[
+                         { label: '大小', value: `${fwImage.size} B` },
+                         { label: '頁數', value: `${fwImage.pages}` },
+                         { label: 'CS1', value: formatChecksum(fwImage.cs1) },
+                         { label: 'CS2', value: formatChecksum(fwImage.cs2) }
+                       ].map(item => (
+                         <div key={item.label} className="bg-slate-50 rounded-lg py-2">
+                           <div className="text-[9px] font-black text-slate-400 uppercase">{item.label}</div>
+                           <div className="text-xs font-black text-slate-700 font-mono tabular-nums">{item.value}</div>
+                         </div>
+                       ))}
+                     </div>
+                     {fwImage.padding > 0 && <div className="text-[10px] font-bold text-slate-400">最後一頁補齊 {fwImage.padding} Bytes 0x00 (CheckSum 以補齊後計算)</div>}
+                     {fwImage.errors.map(msg => <div key={msg} className="text-[10px] font-bold text-rose-600 bg-rose-50 px-3 py-2 rounded-lg">{msg}</div>)}
+                     {fwImage.warnings.map(msg => <div key={msg} className="text-[10px] font-bold text-amber-700 bg-amber-50 px-3 py-2 rounded-lg">{msg}</div>)}
+                  </div>
+                )}
+                {fwChecksumErrors > 0 && (
+                  <div className="mt-4 text-[10px] font-bold text-rose-600 bg-rose-50 px-3 py-2 rounded-lg">讀取器回報 CheckSum 錯誤 {fwChecksumErrors} 次，請檢查線路雜訊或檔案是否完整</div>
+                )}
+                {fwVerify && (
+                  <div className={`mt-4 text-[10px] font-bold px-3 py-2 rounded-lg ${fwVerify.ok ? 'text-emerald-700 bg-emerald-50' : 'text-rose-600 bg-rose-50'}`}>
+                    {fwVerify.ok ? `已確認執行版本 ${fwVerify.actual}` : fwVerify.actual ? `執行版本 ${fwVerify.actual} 與檔案 ${fwVerify.expected} 不符` : `無法確認執行版本 (預期 ${fwVerify.expected})`}
+                  </div>
+                )}
                 {(isUpdating || updateProgress > 0) && (
                   <div className="mt-6">
                      <div className="flex justify-between text-[10px] font-black mb-2 text-slate-400 uppercase tracking-widest"><span>{updateStatus}</span><span>{updateProgress}%</span></div>
                      <div className="h-2 bg-slate-100 rounded-full overflow-hidden"><div className="h-full bg-indigo-600 transition-all" style={{width:`${updateProgress}%`}}></div></div>
                   </div>
                 )}
+                {fwResume && !isUpdating && (
+                  <div className="mt-6 p-3 rounded-xl bg-amber-50 border border-amber-100 flex items-center justify-between gap-3">
+                     <span className="text-[10px] font-bold text-amber-700">上次更新中斷於封包 {fwResume.confirmedPage}/{fwResume.totalPages} ({new Date(fwResume.updatedAt).toLocaleString()})</span>
+                     <button onClick={() => runFirmwareUpdate(false, fwResume.confirmedPage)} disabled={!isConnected} className="shrink-0 text-[10px] font-black text-white bg-amber-500 px-3 py-1.5 rounded-lg disabled:opacity-50">續傳</button>
+                  </div>
+                )}
+                <div className="grid grid-cols-3 gap-2 mt-6">
+                  {([
+                    { label: '重試次數', key: 'fwMaxRetries' },
+                    { label: '回應逾時 (ms)', key: 'fwAckTimeoutMs' },
+                    { label: '退避 (ms)', key: 'fwBackoffMs' }
+                  ] as { label: string; key: keyof Pick<TestConfig, 'fwMaxRetries' | 'fwAckTimeoutMs' | 'fwBackoffMs'> }[]).map(item => (
+                    <div key={item.key} className="bg-slate-50 p-3 rounded-lg border border-slate-100 flex flex-col">
+                       <label className="text-[10px] font-black text-slate-400 uppercase mb-1">{item.label}</label>
+                       <input type="number" value={config[item.key]} disabled={isUpdating} onChange={e => setConfig({...config, [item.key]: Math.max(item.key === 'fwAckTimeoutMs' ? 100 : 0, parseInt(e.target.value) || 0)})} className="w-full bg-transparent font-black text-slate-800 outline-none text-sm" />
+                    </div>
+                  ))}
+                </div>
+                <div className="mt-6 bg-slate-50 p-3 rounded-lg border border-slate-100">
+                  <label className="text-[10px] font-black text-slate-400 uppercase mb-1 block">批次站號</label>
+                  <div className="flex gap-2">
+                    <input type="text" value={fwBatchIdsText} onChange={e => setFwBatchIdsText(e.target.value)} disabled={isUpdating} placeholder="例如 1-4, 7" className="flex-1 min-w-0 bg-transparent font-black text-slate-800 outline-none text-sm" />
+                    <button onClick={() => setFwBatchIdsText(busMap!.devices.map(d => d.id).join(', '))} disabled={isUpdating || !busMap?.devices.length} className="text-[10px] font-black text-indigo-600 px-2 py-1 bg-white border border-indigo-100 rounded-lg disabled:opacity-50">全部已掃描</button>
+                    {isUpdating && fwBatch.some(b => b.status !== 'done') ? (
+                      <button onClick={() => { stopRequestedRef.current = true; }} className="text-[10px] font-black text-white bg-rose-500 px-3 py-1 rounded-lg">中止批次</button>
+                    ) : (
+                      <button onClick={runBatchFirmwareUpdate} disabled={!isConnected || !selectedFile || !!fwImage?.errors.length || isUpdating || !fwBatchIdsText.trim()} className="text-[10px] font-black text-white bg-indigo-600 px-3 py-1 rounded-lg disabled:opacity-50">批次升級</button>
+                    )}
+                  </div>
+                </div>
+                {fwBatch.length > 0 && (
+                  <div className="mt-4 space-y-1">
+                    <div className="text-[10px] font-black text-slate-400 uppercase tracking-widest">
+                      批次結果: 成功 {fwBatch.filter(b => b.entry?.outcome === 'success').length} / 失敗 {fwBatch.filter(b => b.status === 'done' && b.entry?.outcome !== 'success').length} / 共 {fwBatch.length}
+                    </div>
+                    {fwBatch.map(b => (
+                      <div key={b.id} className="flex items-center justify-between gap-2 text-[10px] font-bold px-3 py-1.5 rounded-lg bg-slate-50">
+                        <span className="text-slate-700 shrink-0">ID {b.id}</span>
+                        <span className="truncate text-slate-400">{b.entry?.error || (b.entry?.versionAfter ? `→ ${b.entry.versionAfter}` : '')}</span>
+                        <span className={`shrink-0 ${b.status !== 'done' ? 'text-slate-400' : b.entry?.outcome === 'success' ? 'text-emerald-600' : 'text-rose-600'}`}>
+                          {b.status === 'pending' ? '等待中' : b.status === 'running' ? '更新中' : b.entry ? FIRMWARE_OUTCOME_LABELS[b.entry.outcome] : '已取消'}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
                 <div className="flex gap-3 mt-8">
-                  <button onClick={() => runFirmwareUpdate(isUpdatePaused)} disabled={!isConnected || !selectedFile || (isUpdating && !isUpdatePaused)} className="flex-1 h-12 rounded-xl bg-slate-900 text-white font-black text-sm active:scale-95 transition-all disabled:opacity-50">開始升級</button>
+                  <button onClick={() => runFirmwareUpdate(isUpdatePaused)} disabled={!isConnected || !selectedFile || !!fwImage?.errors.length || (isUpdating && (!isUpdatePaused || fwBatch.some(b => b.status !== 'done')))} className="flex-1 h-12 rounded-xl bg-slate-900 text-white font-black text-sm active:scale-95 transition-all disabled:opacity-50">開始升級</button>
                   {isUpdating && <button onClick={() => setIsUpdatePaused(!isUpdatePaused)} className="w-12 h-12 bg-slate-100 rounded-xl flex items-center justify-center">{isUpdatePaused ? <Play className="w-5 h-5" /> : <Pause className="w-5 h-5" />}</button>}
                 </div>
              </div>
+             <div className="w-full max-w-4xl">
+                <FirmwareAuditTable entries={fwAudits} />
+             </div>
           </div>
         )}
 
+        {activeTab === 'dashboard' && (
+          <Dashboard results={results} sessions={sessions} sessionId={viewSessionId} isLive={(isTesting || isSingleTesting) && viewSessionId === sessionRef.current?.id} loadResults={loadSessionResults} onSelectSession={openSession} />
+        )}
+
         {activeTab === 'history' && (
           <div className="flex-1 p-4 overflow-y-auto space-y-3 custom-scrollbar bg-slate-50">
              <div className="flex justify-between items-center mb-2 px-2">
                 <div className="flex flex-col">
-                  <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">歷史紀錄</span>
-                  <span className="text-xs font-black text-slate-800">顯示最新 {results.length} / 總計 {summaryStats.total} 筆數據</span>
+                  <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">歷史紀錄 · {sessions.length} 個工作階段</span>
+                  <span className="text-xs font-black text-slate-800">{viewedSession ? `${viewedSession.name} · 顯示最新 ${results.length} / 總計 ${viewedSession.total} 筆數據` : '尚未選擇工作階段'}</span>
                 </div>
                 <div className="flex gap-2">
+                  <button onClick={() => setIsCompareOpen(true)} disabled={sessions.length < 2} className="text-xs font-black text-slate-600 flex items-center gap-1.5 px-3 py-2 bg-white border border-slate-200 rounded-lg shadow-sm hover:bg-slate-50 active:scale-95 transition-all disabled:opacity-50"><GitCompare className="w-3.5 h-3.5" /> 比較</button>
                   <button onClick={exportToCSV} className="text-xs font-black text-indigo-600 flex items-center gap-1.5 px-3 py-2 bg-white border border-indigo-100 rounded-lg shadow-sm hover:bg-indigo-50 active:scale-95 transition-all"><Download className="w-3.5 h-3.5" /> 導出完整報表</button>
-                  <button onClick={async () => { setResults([]); setSummaryStats({total:0,success:0,tagsFound:0}); if(dbRef.current) await clearDB(dbRef.current); }} className="text-xs font-black text-rose-500 px-3 py-2 hover:bg-rose-50 rounded-lg">全部清除</button>
+                  <button onClick={async () => { if (!confirm("確定清除所有工作階段？")) return; setResults([]); setSessions([]); setSummaryStats(EMPTY_STATS); sessionRef.current = null; if(dbRef.current) await clearDB(dbRef.current); }} disabled={isTesting} className="text-xs font-black text-rose-500 px-3 py-2 hover:bg-rose-50 rounded-lg disabled:opacity-50">全部清除</button>
                 </div>
              </div>
+             {sessions.length > 0 && (
+               <div className="flex gap-2 overflow-x-auto pb-2 custom-scrollbar">
+                 {sessions.map(sess => (
+                   <div key={sess.id} onClick={() => openSession(sess.id!)} className={`shrink-0 w-56 p-3 rounded-xl border cursor-pointer transition-all ${sess.id === viewSessionId ? 'bg-indigo-600 border-indigo-600 text-white shadow-md' : 'bg-white border-slate-200 text-slate-700 hover:border-indigo-200'}`}>
+                      <div className="flex items-center justify-between gap-2">
+                         <span className="text-xs font-black truncate">{sess.name}</span>
+                         {sess.id !== sessionRef.current?.id && <button onClick={e => { e.stopPropagation(); removeSession(sess.id!); }} className={`shrink-0 ${sess.id === viewSessionId ? 'text-indigo-200' : 'text-slate-300 hover:text-rose-500'}`}><Trash2 className="w-3.5 h-3.5" /></button>}
+                      </div>
+                      <div className={`text-[10px] font-bold mt-1 ${sess.id === viewSessionId ? 'text-indigo-100' : 'text-slate-400'}`}>{new Date(sess.startedAt).toLocaleString()}{!sess.endedAt && ' · 未完成'}</div>
+                      <div className={`text-[10px] font-bold mt-0.5 truncate ${sess.id === viewSessionId ? 'text-indigo-100' : 'text-slate-400'}`}>ID {sess.deviceId}{sess.fwVersion ? ` · ${sess.fwVersion}` : ''} · {sess.success}/{sess.total}</div>
+                      {sess.note && <div className={`text-[10px] font-bold mt-0.5 truncate ${sess.id === viewSessionId ? 'text-white' : 'text-slate-500'}`}>{sess.note}</div>}
+                   </div>
+                 ))}
+               </div>
+             )}
+             {viewedLatency && (
+               <div className="grid grid-cols-6 bg-white rounded-xl border border-slate-200 shadow-sm divide-x divide-slate-100">
+                  {latencyCells(viewedLatency).map(c => (
+                    <div key={c.label} className="flex flex-col items-center py-2">
+                       <span className="text-[9px] font-black text-slate-400 uppercase tracking-widest">{c.label}</span>
+                       <span className="text-xs font-black tabular-nums text-slate-700">{formatLatency(c.value)}</span>
+                    </div>
+                  ))}
+               </div>
+             )}
              {results.length === 0 && (
                <div className="h-60 flex flex-col items-center justify-center text-slate-300">
                   <Database className="w-10 h-10 mb-2 opacity-10" />
@@ -629,31 +1715,50 @@ const App: React.FC = () => {
                <div key={i} className="bg-white p-4 rounded-xl border border-slate-200 shadow-sm flex flex-col hover:shadow-md transition-all group gap-3">
                   <div className="flex items-center justify-between w-full">
                     <div className="flex items-center gap-4">
-                       <div className={`w-10 h-10 rounded-lg flex items-center justify-center font-black text-xs ${r.status === 'Success' ? 'bg-emerald-50 text-emerald-600' : 'bg-rose-50 text-rose-600'}`}>#{r.cycle}</div>
+                       <div className={`w-10 h-10 rounded-lg flex items-center justify-center font-black text-xs ${(r.passed ?? r.status === 'Success') ? 'bg-emerald-50 text-emerald-600' : 'bg-rose-50 text-rose-600'}`}>#{r.cycle}</div>
                        <div>
-                          <div className="text-xs font-black text-slate-800 uppercase tracking-tight">{commandLabels[r.cmdType]}</div>
-                          <div className="text-[10px] text-slate-400 font-bold mt-0.5 tracking-tight">偵測標籤: {r.recordsFound} 筆</div>
+                          <div className="text-xs font-black text-slate-800 uppercase tracking-tight">{r.step && <span className="mr-1.5 text-[9px] bg-indigo-50 text-indigo-500 px-1.5 py-0.5 rounded">步驟 {r.step}{r.stepName ? ` · ${r.stepName}` : ''}</span>}{r.customCommand ? `自訂: ${r.customCommand}` : commandLabel(r.cmdType)}</div>
+                          <div className="text-[10px] text-slate-400 font-bold mt-0.5 tracking-tight">{r.channel !== undefined && `天線 ${r.channel} · `}偵測標籤: {r.recordsFound} 筆{cycleLatency(r) !== undefined && ` · 延遲 ${cycleLatency(r)} ms`}{r.timing?.firstTagAt !== undefined && ` · 首標籤 ${(r.timing.firstTagAt - r.timing.txAt).toFixed(1)} ms`}</div>
                        </div>
                     </div>
                     <div className="text-right">
-                       <div className={`text-[10px] font-black uppercase tracking-widest ${r.status === 'Success' ? 'text-emerald-500' : 'text-rose-500'}`}>{r.status === 'Success' ? '成功' : r.status === 'Failure' ? '失敗' : '逾時'}</div>
+                       <div className={`text-[10px] font-black uppercase tracking-widest ${(r.passed ?? r.status === 'Success') ? 'text-emerald-500' : 'text-rose-500'}`}>{statusLabels[r.status]}{r.expect && r.expect !== 'success' && <span className="ml-1 text-slate-300 normal-case">({EXPECTATION_LABELS[r.expect]})</span>}</div>
                        <div className="text-[10px] text-slate-300 font-mono mt-0.5">{r.errorCode}</div>
                     </div>
                   </div>
                   
                   {/* 顯示資料預覽區塊 */}
                   <div className="flex flex-wrap gap-2">
-                    {r.cmdType === '63H' && r.userData && (
+                    {resultPreview(r.cmdType) === 'memory' && r.userData && (
                       <div className="text-[10px] text-slate-500 font-mono break-all bg-slate-50 px-2 py-1 rounded border border-slate-100 flex items-center gap-1 max-w-full">
-                        <Database className="w-3 h-3 shrink-0" /> <span className="truncate">Data: {r.userData}</span>
+                        <Database className="w-3 h-3 shrink-0" /> <span className="truncate">{MEMORY_BANK_LABELS[r.bank || 'user']}: {r.userData}</span>
                       </div>
                     )}
-                    {(r.cmdType === '64H' || r.cmdType === '61H') && r.epcList && r.epcList.length > 0 && (
+                    {resultPreview(r.cmdType) === 'epc' && r.epcList && r.epcList.length > 0 && (
                       <div className="text-[10px] text-indigo-500 font-mono break-all bg-indigo-50 px-2 py-1 rounded border border-indigo-100 flex items-center gap-1 max-w-full">
                         <Tag className="w-3 h-3 shrink-0" /> <span className="truncate">EPC: {r.epcList[0]}</span> {r.epcList.length > 1 && <span className="shrink-0 text-[8px] font-black bg-indigo-100 px-1 rounded">+{r.epcList.length - 1}</span>}
                       </div>
                     )}
-                    {r.cmdType === '35H' && r.fwVersion && (
+                    {(r.missingEpcs || r.unexpectedEpcs) && (
+                      <div className="text-[10px] text-rose-600 font-mono break-all bg-rose-50 px-2 py-1 rounded border border-rose-100 flex flex-col gap-0.5 max-w-full">
+                        {r.missingEpcs && <span className="truncate">缺少: {r.missingEpcs.join(', ')}</span>}
+                        {r.unexpectedEpcs && <span className="truncate">非預期: {r.unexpectedEpcs.join(', ')}</span>}
+                      </div>
+                    )}
+                    {r.targetEpc && (
+                      <div className="text-[10px] text-emerald-600 font-mono break-all bg-emerald-50 px-2 py-1 rounded border border-emerald-100 flex items-center gap-1 max-w-full">
+                        <Tag className="w-3 h-3 shrink-0" /> <span className="truncate">目標: {r.targetEpc}</span>
+                      </div>
+                    )}
+                    {r.verify && r.verify.readBack && (
+                      <div className={`text-[10px] font-mono break-all px-2 py-1 rounded border flex flex-col gap-0.5 max-w-full ${r.verify.match ? 'bg-emerald-50 border-emerald-100 text-emerald-600' : 'bg-rose-50 border-rose-100 text-slate-500'}`}>
+                        <span className="truncate">W: {r.verify.written.match(/.{1,2}/g)?.join(' ')}</span>
+                        <span className="truncate">R: {(r.verify.readBack.match(/.{1,2}/g) || []).map((b, idx) => (
+                          <span key={idx} className={r.verify!.mismatchBytes.includes(idx) ? 'bg-rose-200 text-rose-700 font-black rounded-sm' : ''}>{b}{' '}</span>
+                        ))}</span>
+                      </div>
+                    )}
+                    {resultPreview(r.cmdType) === 'version' && r.fwVersion && (
                       <div className="text-[10px] text-purple-500 font-mono break-all bg-purple-50 px-2 py-1 rounded border border-purple-100 flex items-center gap-1 max-w-full">
                         <Cpu className="w-3 h-3 shrink-0" /> <span className="truncate">FW: {r.fwVersion}</span>
                       </div>
@@ -669,26 +1774,112 @@ const App: React.FC = () => {
           <div className="flex w-full max-lg gap-2 p-1.5 bg-slate-100 rounded-xl mx-4 shadow-inner">
             <button onClick={() => setActiveTab('terminal')} className={`flex-1 py-2 rounded-lg text-xs font-black flex items-center justify-center gap-2 transition-all ${activeTab === 'terminal' ? 'bg-white shadow-sm text-indigo-600' : 'text-slate-400'}`}><Terminal className="w-4 h-4" /> 終端機</button>
             <button onClick={() => setActiveTab('update')} className={`flex-1 py-2 rounded-lg text-xs font-black flex items-center justify-center gap-2 transition-all ${activeTab === 'update' ? 'bg-white shadow-sm text-indigo-600' : 'text-slate-400'}`}><Cpu className="w-4 h-4" /> 韌體更新</button>
+            <button onClick={() => setActiveTab('dashboard')} className={`flex-1 py-2 rounded-lg text-xs font-black flex items-center justify-center gap-2 transition-all ${activeTab === 'dashboard' ? 'bg-white shadow-sm text-indigo-600' : 'text-slate-400'}`}><ChartLine className="w-4 h-4" /> 儀表板</button>
             <button onClick={() => setActiveTab('history')} className={`flex-1 py-2 rounded-lg text-xs font-black flex items-center justify-center gap-2 transition-all ${activeTab === 'history' ? 'bg-white shadow-sm text-indigo-600' : 'text-slate-400'}`}><Database className="w-4 h-4" /> 歷史紀錄</button>
           </div>
       </footer>
 
+      <TestPlanEditor isOpen={isPlanEditorOpen} plan={plan} config={config} onChange={setPlan} onClose={() => setIsPlanEditorOpen(false)} />
+      <FrameInspector isOpen={inspectorHex !== null} initialHex={inspectorHex || ''} onClose={() => setInspectorHex(null)} />
+      <CommandComposer isOpen={isComposerOpen} commands={customCommands} readerId={config.id} canSend={isConnected && !isTesting && !isSingleTesting}
+        onSend={sendComposedFrame} onSave={saveCustomCommand} onDelete={removeCustomCommand} onUse={selectCustomCommand} onClose={() => setIsComposerOpen(false)} />
+
+      <CaptureManager isOpen={isCaptureOpen} captures={captures} recordingId={recordingId} replayId={replaySource?.capture.id ?? null}
+        onExport={exportCapture} onReplay={selectReplay} onDelete={removeCapture} onImport={importCapture} onClose={() => setIsCaptureOpen(false)} />
+
+      <SessionCompare isOpen={isCompareOpen} sessions={sessions} initialSessionId={viewSessionId} loadResults={loadSessionResults} onClose={() => setIsCompareOpen(false)} />
+
       {/* Advanced Config Modal */}
       <div className={`fixed inset-0 z-[100] transition-all duration-300 ${isAdvConfigOpen ? 'visible opacity-100' : 'invisible opacity-0'}`}>
          <div className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm" onClick={() => setIsAdvConfigOpen(false)}></div>
          <div className={`absolute bottom-0 inset-x-0 bg-white rounded-t-[32px] p-8 shadow-2xl transition-transform duration-500 transform ${isAdvConfigOpen ? 'translate-y-0' : 'translate-y-full'}`}>
             <div className="w-12 h-1 bg-slate-200 rounded-full mx-auto mb-6"></div>
-            <h3 className="font-black text-slate-800 mb-6 flex justify-between items-center uppercase tracking-widest text-sm">進階參數設定 <button onClick={() => setIsAdvConfigOpen(false)}><X className="w-5 h-5 text-slate-400" /></button></h3>
+            <h3 className="font-black text-slate-800 mb-6 flex justify-between items-center uppercase tracking-widest text-sm">進階參數設定 <span className="flex items-center gap-3"><button onClick={() => setIsProfileOpen(true)} className="text-[10px] font-black text-indigo-600 flex items-center gap-1 px-2 py-1 bg-white border border-indigo-100 rounded-lg normal-case tracking-normal"><SlidersHorizontal className="w-3 h-3" /> {profile.name}</button><button onClick={() => setIsAdvConfigOpen(false)}><X className="w-5 h-5 text-slate-400" /></button></span></h3>
             <div className="space-y-4 max-h-[60vh] overflow-y-auto custom-scrollbar pr-2">
                <div className="grid grid-cols-2 gap-4">
                   <div className="bg-slate-50 p-3 rounded-xl border border-slate-100"><label className="text-[10px] font-black text-slate-400 block mb-1 uppercase">波特率</label>
-                    <select value={config.baudRate} onChange={e => setConfig({...config, baudRate: parseInt(e.target.value)})} className="w-full bg-transparent font-black text-slate-800 outline-none text-sm h-8 cursor-pointer">{[9600, 19200, 38400, 57600, 115200].map(b => <option key={b} value={b}>{b} bps</option>)}</select>
+                    <select value={config.baudRate} onChange={e => setConfig({...config, baudRate: parseInt(e.target.value)})} className="w-full bg-transparent font-black text-slate-800 outline-none text-sm h-8 cursor-pointer">{BAUD_RATES.map(b => <option key={b} value={b}>{b} bps</option>)}</select>
                   </div>
                   <div className="bg-slate-50 p-3 rounded-xl border border-slate-100"><label className="text-[10px] font-black text-slate-400 block mb-1 uppercase">設備站號</label>
-                    <input type="number" min="0" max="15" value={config.id} onChange={e => setConfig({...config, id: Math.max(0, Math.min(15, parseInt(e.target.value) || 0))})} className="w-full bg-transparent font-black text-slate-800 outline-none text-sm h-8" />
+                    <input type="number" min="0" max={MAX_READER_ID} value={config.id} onChange={e => setConfig({...config, id: Math.max(0, Math.min(MAX_READER_ID, parseInt(e.target.value) || 0))})} className="w-full bg-transparent font-black text-slate-800 outline-none text-sm h-8" />
+                  </div>
+               </div>
+               <div className="bg-slate-50 p-3 rounded-xl border border-slate-100">
+                  <div className="flex items-center justify-between mb-2">
+                     <label className="text-[10px] font-black text-slate-400 uppercase">匯流排設備{busMap && <span className="ml-2 normal-case font-bold text-slate-300">{new Date(busMap.scannedAt).toLocaleString()} @ {busMap.baudRate} bps</span>}</label>
+                     <button onClick={scanBus} disabled={!isConnected || isTesting || isSingleTesting || isUpdating || isScanning} className="text-[10px] font-black text-indigo-600 flex items-center gap-1 px-2 py-1 bg-white border border-indigo-100 rounded-lg disabled:opacity-50">
+                        <Radar className={`w-3 h-3 ${isScanning ? 'animate-spin' : ''}`} /> {isScanning ? `掃描中 ${scanProgress}/${MAX_READER_ID}` : '掃描匯流排'}
+                     </button>
                   </div>
+                  {!busMap ? (
+                    <div className="text-[10px] font-bold text-slate-300">尚未掃描</div>
+                  ) : busMap.devices.length === 0 ? (
+                    <div className="text-[10px] font-bold text-slate-300">未發現任何讀取器</div>
+                  ) : (
+                    <div className="space-y-1">
+                      {busMap.devices.map(d => (
+                        <button key={d.id} onClick={() => setConfig({...config, id: d.id})} className={`w-full flex items-center justify-between px-3 py-2 rounded-lg text-xs font-black border transition-colors ${config.id === d.id ? 'bg-indigo-50 border-indigo-200 text-indigo-600' : 'bg-white border-slate-100 text-slate-600 hover:bg-slate-100'}`}>
+                           <span>ID {d.id}</span>
+                           <span className="font-mono text-[10px] truncate mx-2">{d.fwVersion}</span>
+                           <span className="text-[10px] tabular-nums text-slate-400">{d.latencyMs} ms</span>
+                        </button>
+                      ))}
+                    </div>
+                  )}
                </div>
                
+               <div className="bg-slate-50 p-3 rounded-xl border border-slate-100"><label className="text-[10px] font-black text-slate-400 block mb-1 uppercase">連線方式</label>
+                  <select value={config.transportType} onChange={e => setConfig({...config, transportType: e.target.value as TransportType})} className="w-full bg-transparent font-black text-slate-800 outline-none text-sm h-8 cursor-pointer">
+                    <option value="serial">Web Serial 串口</option>
+                    <option value="simulator">模擬讀取器 (無硬體)</option>
+                    <option value="replay">擷取重播 (離線)</option>
+                  </select>
+               </div>
+               {config.transportType === 'replay' && (
+                 <div className="bg-indigo-50/50 p-3 rounded-xl border border-indigo-100 space-y-3">
+                    <div className="flex items-center justify-between gap-2">
+                       <div className="min-w-0"><label className="text-[10px] font-black text-indigo-400 block mb-1 uppercase">重播來源</label>
+                         <span className="text-sm font-black text-slate-800 truncate block">{replaySource ? `${replaySource.capture.name} (${replaySource.chunks.length} 區塊)` : '未選擇'}</span>
+                       </div>
+                       <button onClick={() => setIsCaptureOpen(true)} className="shrink-0 text-[10px] font-black text-indigo-600 flex items-center gap-1 px-2 py-1 bg-white border border-indigo-100 rounded-lg"><FolderOpen className="w-3 h-3" /> 選擇</button>
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                       <div><label className="text-[10px] font-black text-indigo-400 block mb-1 uppercase">重播方式</label>
+                         <select value={replayOptions.mode} onChange={e => setReplayOptions({...replayOptions, mode: e.target.value as ReplayMode})} className="w-full bg-transparent font-black text-slate-800 outline-none text-sm h-8 cursor-pointer">
+                           <option value="reactive">依送出指令回應</option>
+                           <option value="stream">依時間軸播放全部</option>
+                         </select>
+                       </div>
+                       <div><label className="text-[10px] font-black text-indigo-400 block mb-1 uppercase">速度倍率</label>
+                         <input type="number" min="0.1" step="0.5" value={replayOptions.speed} onChange={e => setReplayOptions({...replayOptions, speed: Math.max(0.1, parseFloat(e.target.value) || 1)})} className="w-full bg-transparent font-black text-slate-800 outline-none text-sm h-8" />
+                       </div>
+                    </div>
+                 </div>
+               )}
+               {config.transportType === 'simulator' && (
+                 <div className="bg-amber-50/50 p-3 rounded-xl border border-amber-100 space-y-3">
+                    <div className="grid grid-cols-2 gap-4">
+                       <div><label className="text-[10px] font-black text-amber-500 block mb-1 uppercase">模擬韌體版本</label>
+                         <input type="text" value={simOptions.fwVersion} onChange={e => setSimOptions({...simOptions, fwVersion: e.target.value})} className="w-full bg-transparent font-black text-slate-800 outline-none text-sm h-8" />
+                       </div>
+                       <div><label className="text-[10px] font-black text-amber-500 block mb-1 uppercase">模擬站號 (逗號分隔)</label>
+                         <input type="text" value={simIdsText} onChange={e => setSimIdsText(e.target.value)} className="w-full bg-transparent font-black text-slate-800 outline-none text-sm h-8" placeholder="1,2,3" />
+                       </div>
+                       <div><label className="text-[10px] font-black text-amber-500 block mb-1 uppercase">回應延遲 (ms)</label>
+                         <input type="number" value={simOptions.responseDelayMs} onChange={e => setSimOptions({...simOptions, responseDelayMs: Math.max(0, parseInt(e.target.value) || 0)})} className="w-full bg-transparent font-black text-slate-800 outline-none text-sm h-8" />
+                       </div>
+                       <div><label className="text-[10px] font-black text-amber-500 block mb-1 uppercase">漏讀機率 (%)</label>
+                         <input type="number" min="0" max="100" value={Math.round(simOptions.missRate * 100)} onChange={e => setSimOptions({...simOptions, missRate: Math.max(0, Math.min(100, parseInt(e.target.value) || 0)) / 100})} className="w-full bg-transparent font-black text-slate-800 outline-none text-sm h-8" />
+                       </div>
+                       <div><label className="text-[10px] font-black text-amber-500 block mb-1 uppercase">雜訊機率 (%)</label>
+                         <input type="number" min="0" max="100" value={Math.round(simOptions.noiseRate * 100)} onChange={e => setSimOptions({...simOptions, noiseRate: Math.max(0, Math.min(100, parseInt(e.target.value) || 0)) / 100})} className="w-full bg-transparent font-black text-slate-800 outline-none text-sm h-8" />
+                       </div>
+                    </div>
+                    <div><label className="text-[10px] font-black text-amber-500 block mb-1 uppercase">模擬標籤 (每行 EPC[:User Memory])</label>
+                      <textarea value={simTagsText} onChange={e => setSimTagsText(e.target.value)} rows={4} className="w-full bg-white/60 rounded-lg p-2 font-mono text-xs text-slate-800 outline-none border border-amber-100" />
+                    </div>
+                 </div>
+               )}
                <div className="bg-slate-50 p-3 rounded-xl border border-slate-100"><label className="text-[10px] font-black text-slate-400 block mb-1 uppercase">測試間隔 (ms)</label>
                   <input type="number" value={config.intervalMs} onChange={e => setConfig({...config, intervalMs: parseInt(e.target.value) || 0})} className="w-full bg-transparent font-black text-slate-800 outline-none text-sm h-8" />
                </div>
@@ -696,9 +1887,13 @@ const App: React.FC = () => {
                   <input type="checkbox" checked={config.stopOnError} readOnly className="w-5 h-5 rounded accent-indigo-600" /><span className="text-xs font-bold text-slate-600">偵測到異常回應時自動中止流程</span>
                </div>
             </div>
-            <button onClick={handleSaveConfig} className="w-full h-14 bg-slate-900 text-white font-black rounded-xl mt-6 uppercase tracking-widest text-xs active:scale-95 transition-all">儲存參數</button>
+            <button onClick={handleSaveConfig} className="w-full h-14 bg-slate-900 text-white font-black rounded-xl mt-6 uppercase tracking-widest text-xs active:scale-95 transition-all">儲存至「{profile.name}」</button>
          </div>
       </div>
+
+      {/* 可由進階參數設定開啟，須疊在其上 */}
+      <ProfileManager isOpen={isProfileOpen} profiles={profileStore.profiles} activeId={profile.id} isDirty={isProfileDirty} canSwitch={!isTesting && !isSingleTesting && !isUpdating && !isScanning}
+        onSwitch={switchProfile} onSave={saveActiveProfile} onSaveAs={saveProfileAs} onRename={renameProfile} onDelete={removeProfile} onExport={exportProfiles} onImport={importProfiles} onClose={() => setIsProfileOpen(false)} />
       <style dangerouslySetInnerHTML={{ __html: `.custom-scrollbar::-webkit-scrollbar { width: 3px; } .custom-scrollbar::-webkit-scrollbar-thumb { background: rgba(0,0,0,0.1); border-radius: 10px; }`}} />
     </div>
   );
@@ -0,0 +1,53 @@
+
+import React from 'react';
+import { X, FolderOpen, Download, Upload, Play, Trash2 } from 'lucide-react';
+import { Capture } from '../types';
+import { CAPTURE_FILE_EXT } from '../utils/capture';
+
+interface CaptureManagerProps {
+  isOpen: boolean;
+  captures: Capture[];          // 新到舊
+  recordingId: number | null;   // 錄製中的擷取不可刪除或重播
+  replayId: number | null;
+  onExport: (capture: Capture) => void;
+  onReplay: (capture: Capture) => void;
+  onDelete: (capture: Capture) => void;
+  onImport: (file: File) => void;
+  onClose: () => void;
+}
+
+const formatDuration = (capture: Capture) => {
+  if (!capture.endedAt) return '錄製中';
+  const sec = (new Date(capture.endedAt).getTime() - new Date(capture.startedAt).getTime()) / 1000;
+  return sec >= 60 ? `${Math.floor(sec / 60)} 分 ${Math.round(sec % 60)} 秒` : `${sec.toFixed(1)} 秒`;
+};
+
+const CaptureManager: React.FC<CaptureManagerProps> = ({ isOpen, captures, recordingId, replayId, onExport, onReplay, onDelete, onImport, onClose }) => (
+  <div className={`fixed inset-0 z-[100] transition-all duration-300 ${isOpen ? 'visible opacity-100' : 'invisible opacity-0'}`}>
+     <div className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm" onClick={onClose}></div>
+     <div className={`absolute bottom-0 inset-x-0 bg-white rounded-t-[32px] p-8 shadow-2xl transition-transform duration-500 transform ${isOpen ? 'translate-y-0' : 'translate-y-full'}`}>
+        <div className="w-12 h-1 bg-slate-200 rounded-full mx-auto mb-6"></div>
+        <h3 className="font-black text-slate-800 mb-4 flex justify-between items-center uppercase tracking-widest text-sm"><span className="flex items-center gap-2"><FolderOpen className="w-4 h-4" /> 收發擷取</span> <button onClick={onClose}><X className="w-5 h-5 text-slate-400" /></button></h3>
+        <div className="flex justify-end mb-3">
+          <input type="file" accept={`${CAPTURE_FILE_EXT},.jsonl`} id="capture-file" className="hidden" onChange={e => { const file = e.target.files?.[0]; if (file) onImport(file); e.target.value = ''; }} />
+          <label htmlFor="capture-file" className="text-[10px] font-black text-indigo-600 flex items-center gap-1 px-2 py-1 bg-white border border-indigo-100 rounded-lg hover:bg-indigo-50 cursor-pointer"><Upload className="w-3 h-3" /> 匯入擷取檔</label>
+        </div>
+        <div className="space-y-2 max-h-[50vh] overflow-y-auto custom-scrollbar pr-1">
+          {captures.length === 0 && <div className="h-16 flex items-center justify-center text-[10px] font-bold text-slate-300">尚無擷取，於原始數據檢視開始錄製</div>}
+          {captures.map(c => (
+            <div key={c.id} className={`flex items-center gap-3 p-3 rounded-xl border ${c.id === replayId ? 'border-indigo-200 bg-indigo-50/50' : 'border-slate-100 bg-slate-50'}`}>
+              <div className="flex-1 min-w-0">
+                <div className="text-xs font-black text-slate-700 truncate">{c.name}</div>
+                <div className="text-[10px] font-bold text-slate-400 truncate">{new Date(c.startedAt).toLocaleString()} · {formatDuration(c)} · {c.chunkCount} 區塊 · {c.baudRate} bps · ID {c.deviceId}</div>
+              </div>
+              <button onClick={() => onExport(c)} className="p-2 text-slate-400 hover:text-indigo-600" title="匯出"><Download className="w-4 h-4" /></button>
+              <button onClick={() => onReplay(c)} disabled={c.id === recordingId} className="p-2 text-slate-400 hover:text-indigo-600 disabled:opacity-30" title="重播"><Play className="w-4 h-4" /></button>
+              <button onClick={() => onDelete(c)} disabled={c.id === recordingId} className="p-2 text-slate-400 hover:text-rose-600 disabled:opacity-30" title="刪除"><Trash2 className="w-4 h-4" /></button>
+            </div>
+          ))}
+        </div>
+     </div>
+  </div>
+);
+
+export default CaptureManager;
@@ -0,0 +1,146 @@
+
+import React, { useEffect, useState } from 'react';
+import { X, Wrench, Send, Save, Plus, Trash2, Zap } from 'lucide-react';
+import { CustomCommand } from '../types';
+import { buildFrame, hexToUint8Array, uint8ArrayToHex, DecodedPacket } from '../utils/protocol';
+import { createCustomCommand, customCommandLabel, evaluateCustomResponse, formatCmdByte, normalizeHex, parseSuccessCodes, CustomVerdict, MAX_CUSTOM_PAYLOAD } from '../utils/custom';
+import { inspectHex } from '../utils/inspector';
+import InspectedFrameCard from './InspectedFrameCard';
+
+interface CommandComposerProps {
+  isOpen: boolean;
+  commands: CustomCommand[];
+  readerId: number;         // 預設站號
+  canSend: boolean;         // 已連線且無測試進行中
+  onSend: (frame: Uint8Array) => Promise<DecodedPacket | null>; // 回傳 CMD 相符的第一個響應，逾時為 null
+  onSave: (command: CustomCommand) => void;
+  onDelete: (command: CustomCommand) => void;
+  onUse: (command: CustomCommand) => void; // 設為壓力測試指令
+  onClose: () => void;
+}
+
+// 表單以文字保存，送出或儲存時才解析
+const toForm = (c: CustomCommand) => ({
+  id: c.id, name: c.name, cmd: formatCmdByte(c.cmd), payload: c.payload, offset: String(c.errorOffset), codes: c.successCodes.join(', ')
+});
+
+const CommandComposer: React.FC<CommandComposerProps> = ({ isOpen, commands, readerId, canSend, onSend, onSave, onDelete, onUse, onClose }) => {
+  const [form, setForm] = useState(() => toForm(createCustomCommand()));
+  const [idText, setIdText] = useState(String(readerId));
+  const [isSending, setIsSending] = useState(false);
+  const [response, setResponse] = useState<{ packet: DecodedPacket | null; verdict?: CustomVerdict } | null>(null);
+
+  useEffect(() => {
+    if (isOpen) setIdText(String(readerId));
+  }, [isOpen, readerId]);
+
+  const cmd = /^[0-9A-F]{1,2}$/i.test(form.cmd.trim()) ? parseInt(form.cmd.trim(), 16) : NaN;
+  const payload = normalizeHex(form.payload);
+  const id = parseInt(idText);
+  const offset = parseInt(form.offset);
+  const errors = [
+    isNaN(cmd) && 'CMD 需為 1 Byte 十六進制',
+    (isNaN(id) || id < 0 || id > 0xFF) && '站號需為 0~255',
+    payload === null && 'Payload 需為偶數位數的十六進制',
+    payload !== null && hexToUint8Array(payload).length > MAX_CUSTOM_PAYLOAD && `Payload 超過 ${MAX_CUSTOM_PAYLOAD} Bytes`,
+    isNaN(offset) && '錯誤碼位置需為整數'
+  ].filter(Boolean) as string[];
+  const frame = errors.length === 0 ? buildFrame(id, cmd, hexToUint8Array(payload!)) : null;
+
+  const toCommand = (): CustomCommand => ({
+    id: form.id, name: form.name.trim(), cmd, payload: payload!, errorOffset: offset, successCodes: parseSuccessCodes(form.codes)
+  });
+
+  const send = async () => {
+    if (!frame || isSending) return;
+    setIsSending(true); setResponse(null);
+    const packet = await onSend(frame);
+    setResponse({ packet, verdict: packet && !packet.frameError ? evaluateCustomResponse(hexToUint8Array(packet.raw), toCommand()) : undefined });
+    setIsSending(false);
+  };
+
+  const save = () => {
+    if (errors.length > 0) { alert(errors.join('\n')); return; }
+    if (!form.name.trim()) { alert("請輸入指令名稱"); return; }
+    onSave(toCommand());
+  };
+
+  const responseFrame = response?.packet ? inspectHex(response.packet.raw).frames[0] : undefined;
+
+  return (
+    <div className={`fixed inset-0 z-[100] transition-all duration-300 ${isOpen ? 'visible opacity-100' : 'invisible opacity-0'}`}>
+       <div className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm" onClick={onClose}></div>
+       <div className={`absolute bottom-0 inset-x-0 bg-white rounded-t-[32px] p-8 shadow-2xl transition-transform duration-500 transform max-h-[90vh] flex flex-col ${isOpen ? 'translate-y-0' : 'translate-y-full'}`}>
+          <div className="w-12 h-1 bg-slate-200 rounded-full mx-auto mb-6"></div>
+          <h3 className="font-black text-slate-800 mb-4 flex justify-between items-center uppercase tracking-widest text-sm"><span className="flex items-center gap-2"><Wrench className="w-4 h-4" /> 自訂指令</span> <button onClick={onClose}><X className="w-5 h-5 text-slate-400" /></button></h3>
+          <div className="space-y-4 overflow-y-auto custom-scrollbar flex-1 pr-1">
+            {commands.length > 0 && (
+              <div className="space-y-2">
+                {commands.map(c => (
+                  <div key={c.id} className={`flex items-center gap-2 p-2 pl-3 rounded-xl border ${c.id === form.id ? 'border-indigo-200 bg-indigo-50/50' : 'border-slate-100 bg-slate-50'}`}>
+                    <button onClick={() => { setForm(toForm(c)); setResponse(null); }} className="flex-1 min-w-0 text-left">
+                      <div className="text-xs font-black text-slate-700 truncate">{customCommandLabel(c)}</div>
+                      <div className="text-[10px] font-mono font-bold text-slate-400 truncate">{c.payload || '(無 Payload)'}</div>
+                    </button>
+                    <button onClick={() => onUse(c)} className="p-2 text-slate-400 hover:text-indigo-600" title="用於壓力測試"><Zap className="w-4 h-4" /></button>
+                    <button onClick={() => { if (confirm(`確定刪除自訂指令「${c.name}」？`)) onDelete(c); }} className="p-2 text-slate-400 hover:text-rose-600" title="刪除"><Trash2 className="w-4 h-4" /></button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div className="grid grid-cols-4 gap-3">
+              <div className="col-span-2 space-y-1">
+                <label className="text-[10px] font-black text-slate-400 uppercase">名稱</label>
+                <input type="text" value={form.name} onChange={e => setForm({ ...form, name: e.target.value })} placeholder="例如 讀取設定" className="w-full bg-slate-50 rounded-lg px-3 py-2 font-black text-xs text-slate-800 outline-none border border-slate-100" />
+              </div>
+              <div className="space-y-1">
+                <label className="text-[10px] font-black text-slate-400 uppercase">CMD (Hex)</label>
+                <input type="text" value={form.cmd} onChange={e => setForm({ ...form, cmd: e.target.value })} maxLength={2} className="w-full bg-slate-50 rounded-lg px-3 py-2 font-mono font-black text-xs text-slate-800 outline-none border border-slate-100 uppercase" />
+              </div>
+              <div className="space-y-1">
+                <label className="text-[10px] font-black text-slate-400 uppercase">站號</label>
+                <input type="number" value={idText} onChange={e => setIdText(e.target.value)} className="w-full bg-slate-50 rounded-lg px-3 py-2 font-black text-xs text-slate-800 outline-none border border-slate-100" />
+              </div>
+              <div className="col-span-4 space-y-1">
+                <label className="text-[10px] font-black text-slate-400 uppercase">Payload (Hex，Reader ID 之後、CRC 之前)</label>
+                <textarea value={form.payload} onChange={e => setForm({ ...form, payload: e.target.value })} rows={2} placeholder="例如 01 00 21" className="w-full bg-slate-50 rounded-lg px-3 py-2 font-mono text-xs text-slate-800 outline-none border border-slate-100" />
+              </div>
+              <div className="col-span-2 space-y-1">
+                <label className="text-[10px] font-black text-slate-400 uppercase">錯誤碼位置 (負值由尾端起算)</label>
+                <input type="number" value={form.offset} onChange={e => setForm({ ...form, offset: e.target.value })} className="w-full bg-slate-50 rounded-lg px-3 py-2 font-black text-xs text-slate-800 outline-none border border-slate-100" />
+              </div>
+              <div className="col-span-2 space-y-1">
+                <label className="text-[10px] font-black text-slate-400 uppercase">成功錯誤碼 (空白為不判定)</label>
+                <input type="text" value={form.codes} onChange={e => setForm({ ...form, codes: e.target.value })} placeholder="0001, 0000" className="w-full bg-slate-50 rounded-lg px-3 py-2 font-mono font-black text-xs text-slate-800 outline-none border border-slate-100 uppercase" />
+              </div>
+            </div>
+
+            <div className="bg-slate-900 rounded-xl p-3">
+              <div className="text-[10px] font-black text-slate-500 uppercase mb-1">送出封包 (SOF · LEN · CMD · ID · Payload · CRC)</div>
+              {frame
+                ? <div className="font-mono text-xs text-emerald-400 break-all">{uint8ArrayToHex(frame)}</div>
+                : <div className="text-[10px] font-bold text-rose-400">{errors.join('、')}</div>}
+            </div>
+
+            <div className="flex gap-2">
+              <button onClick={send} disabled={!frame || !canSend || isSending} className="flex-1 h-10 rounded-lg font-black text-xs flex items-center justify-center gap-2 bg-indigo-600 text-white hover:bg-indigo-700 disabled:opacity-50"><Send className="w-4 h-4" /> {isSending ? '等待響應...' : '送出'}</button>
+              <button onClick={save} className="h-10 px-4 rounded-lg font-black text-xs flex items-center gap-2 bg-slate-100 text-slate-700 hover:bg-slate-200"><Save className="w-4 h-4" /> 儲存</button>
+              <button onClick={() => { setForm(toForm(createCustomCommand())); setResponse(null); }} className="h-10 px-4 rounded-lg font-black text-xs flex items-center gap-2 bg-slate-100 text-slate-700 hover:bg-slate-200"><Plus className="w-4 h-4" /> 新增</button>
+            </div>
+
+            {response && !response.packet && <div className="h-12 flex items-center justify-center text-[10px] font-bold text-rose-500 bg-rose-50 rounded-xl">未收到 CMD {formatCmdByte(cmd)}H 的響應 (逾時)</div>}
+            {response?.packet?.frameError && <div className="text-[10px] font-bold text-rose-600 bg-rose-50 px-3 py-2 rounded-lg">響應封包{response.packet.frameError === 'crc' ? ' CRC 錯誤' : '長度錯誤'}，不判定成功條件</div>}
+            {response?.verdict && (
+              <div className={`text-xs font-black px-3 py-2 rounded-lg ${response.verdict.success ? 'bg-emerald-50 text-emerald-700' : 'bg-rose-50 text-rose-700'}`}>
+                {response.verdict.success ? '成功' : '失敗'} · 錯誤碼 {response.verdict.errorCode} · {response.verdict.message}
+              </div>
+            )}
+            {responseFrame && <InspectedFrameCard frame={responseFrame} />}
+          </div>
+       </div>
+    </div>
+  );
+};
+
+export default CommandComposer;
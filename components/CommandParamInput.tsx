@@ -0,0 +1,67 @@
+
+import React from 'react';
+import { MEMORY_BANK_LABELS, MemoryBank, TestConfig } from '../types';
+import { CommandDefinition, CommandParamField } from '../utils/commands';
+
+interface CommandParamInputProps {
+  field: CommandParamField;
+  accent: CommandDefinition['accent'];
+  config: TestConfig;
+  lastInventory: string[]; // 最近盤點到的 EPC，供 epc 欄位點選
+  onChange: (patch: Partial<TestConfig>) => void;
+}
+
+const ACCENT_STYLES: Record<CommandDefinition['accent'], { box: string; label: string; value: string }> = {
+  indigo: { box: 'bg-indigo-50/50 border-indigo-100', label: 'text-indigo-400', value: 'text-indigo-600' },
+  emerald: { box: 'bg-emerald-50/50 border-emerald-100', label: 'text-emerald-400', value: 'text-emerald-600' }
+};
+
+/**
+ * 設定面板中單一指令參數的輸入欄位，型態與限制由指令定義宣告
+ */
+const CommandParamInput: React.FC<CommandParamInputProps> = ({ field, accent, config, lastInventory, onChange }) => {
+  const style = ACCENT_STYLES[accent];
+  const value = config[field.key];
+  // 寫入目標未指定且場域內有多張標籤時以紅框提示
+  const targetMissing = field.kind === 'epc' && !value && lastInventory.length > 1;
+  // EPC 以位元組為單位，奇數位無法組成完整的 70H 目標
+  const oddEpc = field.kind === 'epc' && String(value ?? '').length % 2 !== 0;
+
+  const setHex = (raw: string) => {
+    const hex = raw.toUpperCase().replace(/[^0-9A-F]/g, '');
+    onChange({ [field.key]: field.maxLength ? hex.substring(0, field.maxLength) : hex });
+  };
+  const setNumber = (raw: string) => {
+    const min = field.min ?? 0;
+    const n = parseInt(raw);
+    onChange({ [field.key]: Math.max(min, Math.min(field.max ?? Infinity, isNaN(n) ? min : n)) });
+  };
+
+  return (
+    <div className={`${field.wide ? 'col-span-2' : ''} p-3 rounded-lg border flex flex-col animate-in fade-in slide-in-from-top-2 duration-300 ${targetMissing || oddEpc ? 'bg-rose-50/50 border-rose-200' : style.box}`}>
+      <label className={`text-[10px] font-black uppercase mb-1 ${style.label}`}>{field.label}</label>
+      {field.kind === 'bank' ? (
+        <select value={String(value || '')} onChange={e => onChange({ [field.key]: e.target.value as MemoryBank })} className={`w-full bg-transparent font-black outline-none text-sm cursor-pointer ${style.value}`}>
+          {(field.banks || Object.keys(MEMORY_BANK_LABELS) as MemoryBank[]).map(b => <option key={b} value={b}>{MEMORY_BANK_LABELS[b]}</option>)}
+        </select>
+      ) : field.kind === 'number' ? (
+        <input type="number" value={Number(value)} onChange={e => setNumber(e.target.value)} className={`w-full bg-transparent font-black outline-none text-sm ${style.value}`} />
+      ) : (
+        <input type="text" value={String(value ?? '')} onChange={e => setHex(e.target.value)} placeholder={field.placeholder} className={`w-full bg-transparent font-black outline-none text-sm ${style.value}`} />
+      )}
+      {field.hint && <div className={`text-[9px] mt-1 font-bold ${style.label}`}>{field.hint(config)}</div>}
+      {field.kind === 'epc' && lastInventory.length > 0 && (
+        <div className="flex flex-wrap gap-1 mt-1">
+          {lastInventory.map(epc => {
+            const hex = epc.replace(/\s/g, '');
+            return <button key={epc} onClick={() => onChange({ [field.key]: value === hex ? '' : hex })} className={`text-[9px] font-mono font-bold px-1.5 py-0.5 rounded border ${value === hex ? 'bg-emerald-600 text-white border-emerald-600' : 'bg-white text-emerald-600 border-emerald-100'}`}>{hex}</button>;
+          })}
+        </div>
+      )}
+      {oddEpc && <div className="text-[9px] text-rose-500 mt-1 font-bold">EPC 需為偶數位十六進制 (目前 {String(value).length} 位)</div>}
+      {targetMissing && <div className="text-[9px] text-rose-500 mt-1 font-bold">場域內有 {lastInventory.length} 張標籤，必須指定目標才能寫入</div>}
+    </div>
+  );
+};
+
+export default CommandParamInput;
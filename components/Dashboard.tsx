@@ -0,0 +1,241 @@
+
+import React, { useEffect, useRef, useState } from 'react';
+import { ChartLine } from 'lucide-react';
+import { TestResult, TestSession, ERROR_CODES } from '../types';
+import { computeSessionStats, computeTagStats, computeChannelStats, summarizeLatency } from '../utils/stats';
+import { isInventoryCommand } from '../utils/commands';
+import TagStatsTable from './TagStatsTable';
+import PowerSweepReport from './PowerSweepReport';
+
+interface DashboardProps {
+  results: TestResult[];       // 最新在前 (與歷史紀錄頁相同)
+  sessions: TestSession[];
+  sessionId: number | null;
+  isLive: boolean;             // 目前檢視的是正在執行的工作階段
+  loadResults: (sessionId: number) => Promise<TestResult[]>; // 標籤統計需完整的工作階段 (results 只保留最新 1000 筆)
+  onSelectSession: (sessionId: number) => void;
+}
+
+const CHART_W = 320;
+const CHART_H = 120;
+const PAD = 24;
+const HISTOGRAM_BINS = 12;
+const ROLLING_WINDOWS = [10, 20, 50];
+// 執行中重新讀取完整工作階段的最短間隔
+const SESSION_RELOAD_MS = 2000;
+
+/**
+ * 以 SVG 折線繪製序列，yMax 決定縱軸刻度
+ */
+const LineChart: React.FC<{ values: number[]; yMax: number; color: string; yLabel: (v: number) => string }> = ({ values, yMax, color, yLabel }) => {
+  const innerW = CHART_W - PAD * 2, innerH = CHART_H - PAD * 2;
+  const x = (i: number) => PAD + (values.length > 1 ? (i / (values.length - 1)) * innerW : innerW / 2);
+  const y = (v: number) => PAD + innerH - (yMax > 0 ? (v / yMax) * innerH : 0);
+  const points = values.map((v, i) => `${x(i).toFixed(1)},${y(v).toFixed(1)}`).join(' ');
+  return (
+    <svg viewBox={`0 0 ${CHART_W} ${CHART_H}`} className="w-full h-auto">
+      {[0, 0.5, 1].map(f => (
+        <g key={f}>
+          <line x1={PAD} x2={CHART_W - PAD} y1={y(yMax * f)} y2={y(yMax * f)} stroke="#e2e8f0" strokeDasharray="2 3" />
+          <text x={PAD - 4} y={y(yMax * f) + 3} textAnchor="end" fontSize="8" fill="#94a3b8">{yLabel(yMax * f)}</text>
+        </g>
+      ))}
+      {values.length > 0 && <polyline points={points} fill="none" stroke={color} strokeWidth="1.5" strokeLinejoin="round" />}
+      {values.length === 1 && <circle cx={x(0)} cy={y(values[0])} r="2" fill={color} />}
+      <text x={PAD} y={CHART_H - 6} fontSize="8" fill="#94a3b8">1</text>
+      <text x={CHART_W - PAD} y={CHART_H - 6} textAnchor="end" fontSize="8" fill="#94a3b8">{values.length}</text>
+    </svg>
+  );
+};
+
+/**
+ * 以 SVG 長條繪製直方圖
+ */
+const BarChart: React.FC<{ bars: { label: string; value: number }[]; color: string }> = ({ bars, color }) => {
+  const innerW = CHART_W - PAD * 2, innerH = CHART_H - PAD * 2;
+  const max = Math.max(1, ...bars.map(b => b.value));
+  const barW = bars.length > 0 ? innerW / bars.length : 0;
+  return (
+    <svg viewBox={`0 0 ${CHART_W} ${CHART_H}`} className="w-full h-auto">
+      <line x1={PAD} x2={CHART_W - PAD} y1={PAD + innerH} y2={PAD + innerH} stroke="#e2e8f0" />
+      {bars.map((b, i) => {
+        const h = (b.value / max) * innerH;
+        return (
+          <g key={i}>
+            <rect x={PAD + i * barW + 1} y={PAD + innerH - h} width={Math.max(1, barW - 2)} height={h} fill={color} rx="1"><title>{`${b.label}: ${b.value}`}</title></rect>
+            {b.value > 0 && <text x={PAD + i * barW + barW / 2} y={PAD + innerH - h - 2} textAnchor="middle" fontSize="7" fill="#64748b">{b.value}</text>}
+          </g>
+        );
+      })}
+      {bars.length > 0 && (
+        <>
+          <text x={PAD} y={CHART_H - 6} fontSize="8" fill="#94a3b8">{bars[0].label.split('-')[0]}</text>
+          <text x={CHART_W - PAD} y={CHART_H - 6} textAnchor="end" fontSize="8" fill="#94a3b8">{bars[bars.length - 1].label.split('-')[1]}</text>
+        </>
+      )}
+    </svg>
+  );
+};
+
+const Card: React.FC<{ title: string; children: React.ReactNode; extra?: React.ReactNode }> = ({ title, children, extra }) => (
+  <div className="bg-white p-4 rounded-xl border border-slate-200 shadow-sm">
+    <div className="flex items-center justify-between mb-2">
+      <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{title}</span>
+      {extra}
+    </div>
+    {children}
+  </div>
+);
+
+const Dashboard: React.FC<DashboardProps> = ({ results, sessions, sessionId, isLive, loadResults, onSelectSession }) => {
+  const [windowSize, setWindowSize] = useState(20);
+  const [sessionResults, setSessionResults] = useState<TestResult[]>([]);
+  const lastLoadRef = useRef(0);
+  const latest = results[0];
+
+  const sessionIdRef = useRef(sessionId);
+  sessionIdRef.current = sessionId;
+
+  useEffect(() => {
+    if (sessionId === null) { setSessionResults([]); return; }
+    // 執行中每筆新結果都會觸發，節流以免每循環都讀取整個工作階段；
+    // 已送出的讀取不取消 (僅切換階段時捨棄)，避免循環比讀取快時永遠無法更新
+    const wait = isLive ? Math.max(0, lastLoadRef.current + SESSION_RELOAD_MS - Date.now()) : 0;
+    const timer = setTimeout(() => {
+      lastLoadRef.current = Date.now();
+      loadResults(sessionId).then(r => { if (sessionIdRef.current === sessionId) setSessionResults(r); });
+    }, wait);
+    return () => clearTimeout(timer);
+  }, [sessionId, isLive, latest, loadResults]);
+
+  const isSweep = sessions.find(s => s.id === sessionId)?.runMode === 'sweep';
+  const ordered = [...results].reverse();
+  const stats = computeSessionStats(results);
+  const latency = summarizeLatency(stats.latencies);
+
+  // 滾動成功率：每點為最近 windowSize 筆的成功比例
+  const rolling: number[] = [];
+  let passedInWindow = 0;
+  ordered.forEach((r, i) => {
+    if (r.passed ?? r.status === 'Success') passedInWindow++;
+    if (i >= windowSize) {
+      const old = ordered[i - windowSize];
+      if (old.passed ?? old.status === 'Success') passedInWindow--;
+    }
+    rolling.push((passedInWindow / Math.min(i + 1, windowSize)) * 100);
+  });
+
+  const channelStats = computeChannelStats(results);
+  const tagSource = sessionId !== null ? sessionResults : results;
+
+  const tagSeries = ordered.filter(r => isInventoryCommand(r.cmdType)).map(r => r.recordsFound);
+
+  const latencyBars = (() => {
+    if (!latency) return [];
+    const width = Math.max(1, Math.ceil((latency.max + 1) / HISTOGRAM_BINS));
+    const counts = new Array(HISTOGRAM_BINS).fill(0);
+    stats.latencies.forEach(v => { counts[Math.min(HISTOGRAM_BINS - 1, Math.floor(v / width))]++; });
+    return counts.map((value, i) => ({ label: `${i * width}-${(i + 1) * width}ms`, value }));
+  })();
+
+  const errorEntries = Object.entries(stats.errorCodes)
+    .map(([code, count]) => [ERROR_CODES[code] ? `${code} ${ERROR_CODES[code]}` : code, count] as [string, number])
+    .concat(stats.missingCycles > 0 ? [['缺少預期標籤', stats.missingCycles]] : [])
+    .concat(stats.unexpectedCycles > 0 ? [['非預期標籤', stats.unexpectedCycles]] : [])
+    .sort((a, b) => b[1] - a[1]);
+  const errorMax = Math.max(1, ...errorEntries.map(e => e[1]));
+
+  return (
+    <div className="flex-1 p-4 overflow-y-auto space-y-3 custom-scrollbar bg-slate-50">
+      <div className="flex justify-between items-center mb-2 px-2 gap-2">
+        <div className="flex flex-col min-w-0">
+          <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest flex items-center gap-1"><ChartLine className="w-3 h-3" /> 儀表板 {isLive && <span className="text-emerald-500">● 即時</span>}</span>
+          <span className="text-xs font-black text-slate-800">{stats.total} 筆 · 成功率 {(stats.successRate * 100).toFixed(1)}%</span>
+        </div>
+        <select value={sessionId ?? ''} onChange={e => onSelectSession(Number(e.target.value))} className="min-w-0 max-w-[60%] bg-white border border-slate-200 rounded-lg px-2 h-9 font-black text-xs text-slate-700 outline-none cursor-pointer">
+          <option value="" disabled>選擇工作階段</option>
+          {sessions.map(s => <option key={s.id} value={s.id}>{s.name} · {new Date(s.startedAt).toLocaleString()}</option>)}
+        </select>
+      </div>
+
+      {results.length === 0 ? (
+        <div className="h-60 flex flex-col items-center justify-center text-slate-300">
+          <ChartLine className="w-10 h-10 mb-2 opacity-10" />
+          <span className="text-xs font-bold uppercase tracking-widest opacity-50">尚無測試數據</span>
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+          {isSweep && (
+            <div className="md:col-span-2">
+              <PowerSweepReport results={results} />
+            </div>
+          )}
+          <Card title={`滾動成功率 (最近 ${windowSize} 筆)`} extra={
+            <div className="flex gap-1">
+              {ROLLING_WINDOWS.map(w => <button key={w} onClick={() => setWindowSize(w)} className={`text-[9px] font-black px-1.5 py-0.5 rounded ${windowSize === w ? 'bg-indigo-600 text-white' : 'bg-slate-100 text-slate-400'}`}>{w}</button>)}
+            </div>
+          }>
+            <LineChart values={rolling} yMax={100} color="#10b981" yLabel={v => `${Math.round(v)}%`} />
+          </Card>
+          <Card title={latency ? `延遲分布 (P50 ${latency.p50.toFixed(1)} / P95 ${latency.p95.toFixed(1)} ms)` : '延遲分布'}>
+            {latencyBars.length > 0 ? <BarChart bars={latencyBars} color="#6366f1" /> : <div className="h-24 flex items-center justify-center text-[10px] font-bold text-slate-300">無延遲資料</div>}
+          </Card>
+          <Card title="每循環標籤數">
+            {tagSeries.length > 0
+              ? <LineChart values={tagSeries} yMax={Math.max(1, ...tagSeries)} color="#6366f1" yLabel={v => String(Math.round(v))} />
+              : <div className="h-24 flex items-center justify-center text-[10px] font-bold text-slate-300">無盤點 (64H/61H) 資料</div>}
+          </Card>
+          <Card title="錯誤碼分布">
+            {errorEntries.length > 0 ? (
+              <div className="space-y-1.5">
+                {errorEntries.map(([label, count]) => (
+                  <div key={label} className="flex items-center gap-2 text-[10px] font-bold">
+                    <span className="w-28 shrink-0 text-slate-500 truncate text-right">{label}</span>
+                    <div className="flex-1 flex items-center gap-1">
+                      <div className="h-2.5 rounded-sm bg-rose-400" style={{ width: `${(count / errorMax) * 100}%` }}></div>
+                      <span className="text-rose-600 tabular-nums">{count}</span>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : <div className="h-24 flex items-center justify-center text-[10px] font-bold text-emerald-400">沒有錯誤</div>}
+          </Card>
+          {channelStats.length > 1 && (
+            <div className="md:col-span-2">
+              <Card title="天線統計">
+                <div className="overflow-x-auto custom-scrollbar">
+                  <table className="w-full text-[10px] font-bold">
+                    <thead>
+                      <tr className="text-slate-400 uppercase text-left">
+                        <th className="px-2 py-1.5">天線</th><th className="px-2 py-1.5">循環</th><th className="px-2 py-1.5">成功率</th><th className="px-2 py-1.5">平均標籤</th><th className="px-2 py-1.5">延遲 P50</th><th className="px-2 py-1.5">延遲 P95</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {channelStats.map(c => (
+                        <tr key={c.channel} className="border-t border-slate-100 tabular-nums">
+                          <td className="px-2 py-1.5 text-slate-800">{c.channel}</td>
+                          <td className="px-2 py-1.5">{c.cycles}</td>
+                          <td className={`px-2 py-1.5 ${c.successRate >= 0.95 ? 'text-emerald-600' : 'text-rose-600'}`}>{(c.successRate * 100).toFixed(1)}%</td>
+                          <td className="px-2 py-1.5">{c.avgTags.toFixed(2)}</td>
+                          <td className="px-2 py-1.5">{c.latency ? `${c.latency.p50.toFixed(1)} ms` : '—'}</td>
+                          <td className="px-2 py-1.5">{c.latency ? `${c.latency.p95.toFixed(1)} ms` : '—'}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </Card>
+            </div>
+          )}
+          {stats.tagCycles > 0 && (
+            <div className="md:col-span-2">
+              <TagStatsTable report={computeTagStats(tagSource)} channels={channelStats.length > 1 ? channelStats.map(c => c.channel) : []} />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Dashboard;
@@ -0,0 +1,77 @@
+
+import React from 'react';
+import { Download, History } from 'lucide-react';
+import { FirmwareAuditEntry, FirmwareOutcome, FIRMWARE_OUTCOME_LABELS } from '../types';
+
+interface FirmwareAuditTableProps {
+  entries: FirmwareAuditEntry[]; // 新到舊
+}
+
+const OUTCOME_STYLES: Record<FirmwareOutcome, string> = {
+  success: 'text-emerald-600 bg-emerald-50',
+  unverified: 'text-amber-700 bg-amber-50',
+  versionMismatch: 'text-rose-600 bg-rose-50',
+  failed: 'text-rose-600 bg-rose-50',
+  cancelled: 'text-slate-500 bg-slate-100',
+  interrupted: 'text-slate-500 bg-slate-100'
+};
+
+const csvField = (v: string | number | undefined) => `"${String(v ?? '').replace(/"/g, '""')}"`;
+
+const FirmwareAuditTable: React.FC<FirmwareAuditTableProps> = ({ entries }) => {
+  const exportToCSV = () => {
+    const headers = ["ID", "ReaderID", "FileName", "FileSize", "CS1", "CS2", "ImageVersion", "VersionBefore", "VersionAfter", "StartedAt", "EndedAt", "ResumedFrom", "PagesSent", "TotalPages", "Retries", "Outcome", "Error"];
+    const rows = entries.map(e => [
+      e.id, e.deviceId, csvField(e.fileName), e.fileSize, e.cs1, e.cs2, csvField(e.imageVersion), csvField(e.versionBefore), csvField(e.versionAfter),
+      e.startedAt, e.endedAt || '', e.resumedFrom, e.pagesSent, e.totalPages, e.retries, e.outcome, csvField(e.error)
+    ]);
+    const csvContent = [headers, ...rows].map(e => e.join(",")).join("\n");
+    const blob = new Blob(["\ufeff" + csvContent], { type: 'text/csv;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `RFID_FW_Audit_${new Date().getTime()}.csv`;
+    link.click(); URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="bg-white p-4 rounded-xl border border-slate-200 shadow-sm">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest flex items-center gap-1"><History className="w-3 h-3" /> 更新紀錄 ({entries.length})</span>
+        <button onClick={exportToCSV} disabled={entries.length === 0} className="text-[10px] font-black text-indigo-600 flex items-center gap-1 px-2 py-1 bg-white border border-indigo-100 rounded-lg hover:bg-indigo-50 disabled:opacity-50"><Download className="w-3 h-3" /> 匯出</button>
+      </div>
+      {entries.length === 0 ? (
+        <div className="h-16 flex items-center justify-center text-[10px] font-bold text-slate-300">尚無韌體更新紀錄</div>
+      ) : (
+        <div className="overflow-x-auto custom-scrollbar max-h-72">
+          <table className="w-full text-[10px] font-bold">
+            <thead>
+              <tr className="text-slate-400 uppercase text-left">
+                <th className="px-2 py-1.5">時間</th><th className="px-2 py-1.5">站號</th><th className="px-2 py-1.5">檔案</th><th className="px-2 py-1.5">CS1/CS2</th><th className="px-2 py-1.5">版本 (前 → 後)</th><th className="px-2 py-1.5">頁數</th><th className="px-2 py-1.5">重試</th><th className="px-2 py-1.5">結果</th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map(e => (
+                <tr key={e.id} className="border-t border-slate-100 align-top">
+                  <td className="px-2 py-1.5 text-slate-400 whitespace-nowrap">{new Date(e.startedAt).toLocaleString()}</td>
+                  <td className="px-2 py-1.5 tabular-nums">{e.deviceId}</td>
+                  <td className="px-2 py-1.5 whitespace-nowrap">{e.fileName}<div className="text-slate-400 font-normal">{e.fileSize} B · {e.imageVersion || '未知版本'}</div></td>
+                  <td className="px-2 py-1.5 font-mono text-slate-500">{e.cs1}/{e.cs2}</td>
+                  <td className="px-2 py-1.5 whitespace-nowrap">{e.versionBefore || '—'} → {e.versionAfter || '—'}</td>
+                  <td className="px-2 py-1.5 tabular-nums whitespace-nowrap">{e.resumedFrom > 0 ? `${e.resumedFrom}+` : ''}{e.pagesSent}/{e.totalPages}</td>
+                  <td className="px-2 py-1.5 tabular-nums">{e.retries}</td>
+                  <td className="px-2 py-1.5">
+                    <span className={`px-2 py-0.5 rounded-full whitespace-nowrap ${OUTCOME_STYLES[e.outcome]}`}>{FIRMWARE_OUTCOME_LABELS[e.outcome]}</span>
+                    {e.error && <div className="text-rose-500 font-normal mt-1">{e.error}</div>}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default FirmwareAuditTable;
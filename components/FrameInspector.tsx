@@ -0,0 +1,41 @@
+
+import React, { useEffect, useState } from 'react';
+import { X, Microscope } from 'lucide-react';
+import { inspectHex } from '../utils/inspector';
+import InspectedFrameCard from './InspectedFrameCard';
+
+interface FrameInspectorProps {
+  isOpen: boolean;
+  initialHex: string;     // 由原始數據點選帶入
+  onClose: () => void;
+}
+
+const FrameInspector: React.FC<FrameInspectorProps> = ({ isOpen, initialHex, onClose }) => {
+  const [hex, setHex] = useState('');
+
+  useEffect(() => {
+    if (isOpen && initialHex) setHex(initialHex);
+  }, [isOpen, initialHex]);
+
+  const { frames, junk } = inspectHex(hex);
+
+  return (
+    <div className={`fixed inset-0 z-[100] transition-all duration-300 ${isOpen ? 'visible opacity-100' : 'invisible opacity-0'}`}>
+       <div className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm" onClick={onClose}></div>
+       <div className={`absolute bottom-0 inset-x-0 bg-white rounded-t-[32px] p-8 shadow-2xl transition-transform duration-500 transform max-h-[90vh] flex flex-col ${isOpen ? 'translate-y-0' : 'translate-y-full'}`}>
+          <div className="w-12 h-1 bg-slate-200 rounded-full mx-auto mb-6"></div>
+          <h3 className="font-black text-slate-800 mb-4 flex justify-between items-center uppercase tracking-widest text-sm"><span className="flex items-center gap-2"><Microscope className="w-4 h-4" /> 封包解析</span> <button onClick={onClose}><X className="w-5 h-5 text-slate-400" /></button></h3>
+          <textarea value={hex} onChange={e => setHex(e.target.value)} rows={3} placeholder="貼上十六進制，例如 80 00 03 35 01 B7" className="w-full bg-slate-50 rounded-xl p-3 font-mono text-xs text-slate-800 outline-none border border-slate-100 shrink-0" />
+          <div className="mt-4 space-y-3 overflow-y-auto custom-scrollbar flex-1 pr-1">
+            {hex.trim() && frames.length === 0 && <div className="h-12 flex items-center justify-center text-[10px] font-bold text-slate-300">找不到 0x80 / 0x08 開頭的封包</div>}
+            {junk.map(j => (
+              <div key={`junk-${j.offset}`} className="text-[10px] font-bold text-amber-700 bg-amber-50 px-3 py-2 rounded-lg break-all">位置 {j.offset}: 無法對齊的位元組 <span className="font-mono">{j.hex}</span></div>
+            ))}
+            {frames.map(f => <InspectedFrameCard key={f.offset} frame={f} />)}
+          </div>
+       </div>
+    </div>
+  );
+};
+
+export default FrameInspector;
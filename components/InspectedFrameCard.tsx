@@ -0,0 +1,38 @@
+
+import React from 'react';
+import { InspectedFrame, FieldTone } from '../utils/inspector';
+
+interface InspectedFrameCardProps {
+  frame: InspectedFrame;
+}
+
+const TONE_STYLES: Record<FieldTone, string> = {
+  ok: 'text-emerald-600',
+  error: 'text-rose-600',
+  info: 'text-indigo-600'
+};
+
+const InspectedFrameCard: React.FC<InspectedFrameCardProps> = ({ frame: f }) => (
+  <div className={`rounded-xl border p-3 ${f.crcValid ? 'border-slate-100' : 'border-rose-200 bg-rose-50/30'}`}>
+    <div className="flex items-center gap-2 mb-2 text-[10px] font-black">
+      <span className={`px-2 rounded ${f.direction === 'request' ? 'bg-indigo-100 text-indigo-600' : 'bg-emerald-100 text-emerald-600'}`}>{f.direction === 'request' ? 'TX 請求' : 'RX 響應'}</span>
+      <span className="text-slate-700">{f.cmdName}</span>
+      <span className="text-slate-400">位置 {f.offset} · {f.hex.split(' ').length} Bytes</span>
+      {f.truncated ? <span className="text-rose-600 ml-auto">不完整</span> : <span className={`ml-auto ${f.crcValid ? 'text-emerald-600' : 'text-rose-600'}`}>CRC {f.crcValid ? '正確' : '錯誤'}</span>}
+    </div>
+    <table className="w-full text-[10px] font-bold">
+      <tbody>
+        {f.fields.map(field => (
+          <tr key={`${field.start}-${field.label}`} className="border-t border-slate-100 align-top">
+            <td className="px-2 py-1 text-slate-300 tabular-nums whitespace-nowrap w-12">{field.end - field.start > 1 ? `${field.start}-${field.end - 1}` : field.start}</td>
+            <td className="px-2 py-1 text-slate-500 whitespace-nowrap">{field.label}</td>
+            <td className="px-2 py-1 font-mono text-slate-700 break-all">{field.hex}</td>
+            <td className={`px-2 py-1 ${field.tone ? TONE_STYLES[field.tone] : 'text-slate-400'}`}>{field.meaning}</td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  </div>
+);
+
+export default InspectedFrameCard;
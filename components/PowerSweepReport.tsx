@@ -0,0 +1,102 @@
+
+import React from 'react';
+import { Gauge } from 'lucide-react';
+import { TestResult } from '../types';
+import { summarizeSweep, SweepPoint } from '../utils/sweep';
+
+interface PowerSweepReportProps {
+  results: TestResult[];
+}
+
+const CHART_W = 640;
+const CHART_H = 180;
+const PAD = 32;
+
+/**
+ * 成功率 (左軸，%) 與平均標籤數 (右軸) 對功率的曲線
+ */
+const SweepChart: React.FC<{ points: SweepPoint[] }> = ({ points }) => {
+  const innerW = CHART_W - PAD * 2, innerH = CHART_H - PAD * 2;
+  const maxTags = Math.max(1, ...points.map(p => p.avgTags));
+  const x = (i: number) => PAD + (points.length > 1 ? (i / (points.length - 1)) * innerW : innerW / 2);
+  const yRate = (v: number) => PAD + innerH - v * innerH;
+  const yTags = (v: number) => PAD + innerH - (v / maxTags) * innerH;
+  return (
+    <svg viewBox={`0 0 ${CHART_W} ${CHART_H}`} className="w-full h-auto">
+      {[0, 0.5, 1].map(f => (
+        <g key={f}>
+          <line x1={PAD} x2={CHART_W - PAD} y1={yRate(f)} y2={yRate(f)} stroke="#e2e8f0" strokeDasharray="2 3" />
+          <text x={PAD - 4} y={yRate(f) + 3} textAnchor="end" fontSize="9" fill="#10b981">{Math.round(f * 100)}%</text>
+          <text x={CHART_W - PAD + 4} y={yRate(f) + 3} fontSize="9" fill="#6366f1">{(maxTags * f).toFixed(1)}</text>
+        </g>
+      ))}
+      <polyline points={points.map((p, i) => `${x(i).toFixed(1)},${yRate(p.successRate).toFixed(1)}`).join(' ')} fill="none" stroke="#10b981" strokeWidth="2" />
+      <polyline points={points.map((p, i) => `${x(i).toFixed(1)},${yTags(p.avgTags).toFixed(1)}`).join(' ')} fill="none" stroke="#6366f1" strokeWidth="2" strokeDasharray="4 2" />
+      {points.map((p, i) => (
+        <g key={p.power}>
+          <circle cx={x(i)} cy={yRate(p.successRate)} r="2.5" fill="#10b981" />
+          <circle cx={x(i)} cy={yTags(p.avgTags)} r="2.5" fill="#6366f1" />
+          <text x={x(i)} y={CHART_H - 10} textAnchor="middle" fontSize="9" fill="#94a3b8">{p.power}</text>
+        </g>
+      ))}
+    </svg>
+  );
+};
+
+const PowerSweepReport: React.FC<PowerSweepReportProps> = ({ results }) => {
+  const { points, tags } = summarizeSweep(results);
+  if (points.length === 0) return null;
+
+  return (
+    <div className="bg-white p-4 rounded-xl border border-slate-200 shadow-sm space-y-3">
+      <div className="flex items-center justify-between">
+        <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest flex items-center gap-1"><Gauge className="w-3 h-3" /> 功率掃描 ({points[0].power} ~ {points[points.length - 1].power} dbm)</span>
+        <span className="text-[10px] font-bold text-slate-400"><span className="text-emerald-500">━ 成功率</span> <span className="text-indigo-500 ml-2">╍ 平均標籤數</span></span>
+      </div>
+      <SweepChart points={points} />
+      <div className="overflow-x-auto custom-scrollbar">
+        <table className="w-full text-[10px] font-bold">
+          <thead>
+            <tr className="text-slate-400 uppercase text-left">
+              <th className="px-2 py-1.5">功率 (dbm)</th><th className="px-2 py-1.5">循環</th><th className="px-2 py-1.5">成功率</th><th className="px-2 py-1.5">平均標籤</th><th className="px-2 py-1.5">延遲 P50</th><th className="px-2 py-1.5">延遲 P95</th>
+            </tr>
+          </thead>
+          <tbody>
+            {points.map(p => (
+              <tr key={p.power} className="border-t border-slate-100 tabular-nums">
+                <td className="px-2 py-1.5 text-slate-800">{p.power}</td>
+                <td className="px-2 py-1.5">{p.cycles}</td>
+                <td className={`px-2 py-1.5 ${p.successRate >= 0.95 ? 'text-emerald-600' : 'text-rose-600'}`}>{(p.successRate * 100).toFixed(1)}%</td>
+                <td className="px-2 py-1.5">{p.avgTags.toFixed(2)}</td>
+                <td className="px-2 py-1.5">{p.latency ? `${p.latency.p50.toFixed(1)} ms` : '—'}</td>
+                <td className="px-2 py-1.5">{p.latency ? `${p.latency.p95.toFixed(1)} ms` : '—'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+      {tags.length > 0 && (
+        <div className="overflow-x-auto custom-scrollbar">
+          <table className="w-full text-[10px] font-bold">
+            <thead>
+              <tr className="text-slate-400 uppercase text-left">
+                <th className="px-2 py-1.5">EPC</th><th className="px-2 py-1.5">最低讀到功率</th><th className="px-2 py-1.5">最低穩定功率</th>
+              </tr>
+            </thead>
+            <tbody>
+              {tags.map(t => (
+                <tr key={t.epc} className="border-t border-slate-100 tabular-nums">
+                  <td className="px-2 py-1.5 font-mono text-indigo-600 whitespace-nowrap">{t.epc}</td>
+                  <td className="px-2 py-1.5">{t.minSeenPower !== undefined ? `${t.minSeenPower} dbm` : '—'}</td>
+                  <td className={`px-2 py-1.5 ${t.minStablePower === undefined ? 'text-rose-600' : ''}`}>{t.minStablePower !== undefined ? `${t.minStablePower} dbm` : '未穩定'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PowerSweepReport;
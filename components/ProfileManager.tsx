@@ -0,0 +1,84 @@
+
+import React, { useState } from 'react';
+import { X, SlidersHorizontal, Download, Upload, Check, Save, Pencil, Trash2 } from 'lucide-react';
+import { ConfigProfile } from '../types';
+import { PROFILE_FILE_EXT, validateConfig } from '../utils/profiles';
+
+interface ProfileManagerProps {
+  isOpen: boolean;
+  profiles: ConfigProfile[];
+  activeId: string;
+  isDirty: boolean;    // 目前設定與使用中的設定檔不同
+  canSwitch: boolean;  // 測試或更新進行中不可切換
+  onSwitch: (profile: ConfigProfile) => void;
+  onSave: () => void;  // 以目前設定覆寫使用中的設定檔
+  onSaveAs: (name: string) => void;
+  onRename: (profile: ConfigProfile, name: string) => void;
+  onDelete: (profile: ConfigProfile) => void;
+  onExport: (profiles: ConfigProfile[]) => void;
+  onImport: (file: File) => void;
+  onClose: () => void;
+}
+
+const TRANSPORT_LABELS: Record<string, string> = { serial: '串口', simulator: '模擬', replay: '重播' };
+
+const ProfileManager: React.FC<ProfileManagerProps> = ({ isOpen, profiles, activeId, isDirty, canSwitch, onSwitch, onSave, onSaveAs, onRename, onDelete, onExport, onImport, onClose }) => {
+  const [newName, setNewName] = useState('');
+
+  const saveAs = () => {
+    if (!newName.trim()) { alert("請輸入設定檔名稱"); return; }
+    onSaveAs(newName.trim());
+    setNewName('');
+  };
+
+  const rename = (profile: ConfigProfile) => {
+    const name = prompt("設定檔名稱", profile.name)?.trim();
+    if (name && name !== profile.name) onRename(profile, name);
+  };
+
+  return (
+    <div className={`fixed inset-0 z-[100] transition-all duration-300 ${isOpen ? 'visible opacity-100' : 'invisible opacity-0'}`}>
+       <div className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm" onClick={onClose}></div>
+       <div className={`absolute bottom-0 inset-x-0 bg-white rounded-t-[32px] p-8 shadow-2xl transition-transform duration-500 transform ${isOpen ? 'translate-y-0' : 'translate-y-full'}`}>
+          <div className="w-12 h-1 bg-slate-200 rounded-full mx-auto mb-6"></div>
+          <h3 className="font-black text-slate-800 mb-4 flex justify-between items-center uppercase tracking-widest text-sm"><span className="flex items-center gap-2"><SlidersHorizontal className="w-4 h-4" /> 設定檔</span> <button onClick={onClose}><X className="w-5 h-5 text-slate-400" /></button></h3>
+          <div className="flex gap-2 mb-3">
+            <input type="text" value={newName} onChange={e => setNewName(e.target.value)} onKeyDown={e => { if (e.key === 'Enter') saveAs(); }} placeholder="例如 3 號治具 38400 64H 25 dBm" className="flex-1 min-w-0 bg-slate-50 rounded-lg px-3 py-2 font-black text-xs text-slate-800 outline-none border border-slate-100" />
+            <button onClick={saveAs} className="h-9 px-3 rounded-lg font-black text-[10px] flex items-center gap-1 bg-slate-900 text-white"><Save className="w-3 h-3" /> 另存新設定檔</button>
+          </div>
+          <div className="flex justify-end gap-2 mb-3">
+            <button onClick={() => onExport(profiles)} className="text-[10px] font-black text-indigo-600 flex items-center gap-1 px-2 py-1 bg-white border border-indigo-100 rounded-lg hover:bg-indigo-50"><Download className="w-3 h-3" /> 匯出全部</button>
+            <input type="file" accept={`${PROFILE_FILE_EXT},.json,application/json`} id="profile-file" className="hidden" onChange={e => { const file = e.target.files?.[0]; if (file) onImport(file); e.target.value = ''; }} />
+            <label htmlFor="profile-file" className="text-[10px] font-black text-indigo-600 flex items-center gap-1 px-2 py-1 bg-white border border-indigo-100 rounded-lg hover:bg-indigo-50 cursor-pointer"><Upload className="w-3 h-3" /> 匯入設定檔</label>
+          </div>
+          <div className="space-y-2 max-h-[50vh] overflow-y-auto custom-scrollbar pr-1">
+            {profiles.map(p => {
+              const isActive = p.id === activeId;
+              const issues = validateConfig(p.config);
+              const c = p.config;
+              return (
+                <div key={p.id} className={`p-3 rounded-xl border ${isActive ? 'border-indigo-200 bg-indigo-50/50' : 'border-slate-100 bg-slate-50'}`}>
+                  <div className="flex items-center gap-2">
+                    <button onClick={() => onSwitch(p)} disabled={isActive || !canSwitch} className="flex-1 min-w-0 text-left disabled:cursor-default">
+                      <div className="text-xs font-black text-slate-700 truncate flex items-center gap-2">
+                        {isActive && <Check className="w-3 h-3 text-indigo-600 shrink-0" />}{p.name}
+                        {isActive && isDirty && <span className="text-[9px] font-bold text-amber-600 bg-amber-50 border border-amber-100 px-1.5 rounded">未儲存變更</span>}
+                      </div>
+                      <div className="text-[10px] font-bold text-slate-400 truncate">{c.commandType} · {c.baudRate} bps · ID {c.id} · {c.power} dbm · {TRANSPORT_LABELS[c.transportType]} · {new Date(p.updatedAt).toLocaleString()}</div>
+                    </button>
+                    {isActive && <button onClick={onSave} disabled={!isDirty} className="p-2 text-slate-400 hover:text-indigo-600 disabled:opacity-30" title="儲存目前設定"><Save className="w-4 h-4" /></button>}
+                    <button onClick={() => rename(p)} className="p-2 text-slate-400 hover:text-indigo-600" title="重新命名"><Pencil className="w-4 h-4" /></button>
+                    <button onClick={() => onExport([p])} className="p-2 text-slate-400 hover:text-indigo-600" title="匯出"><Download className="w-4 h-4" /></button>
+                    <button onClick={() => { if (confirm(`確定刪除設定檔「${p.name}」？`)) onDelete(p); }} disabled={isActive} className="p-2 text-slate-400 hover:text-rose-600 disabled:opacity-30" title="刪除"><Trash2 className="w-4 h-4" /></button>
+                  </div>
+                  {issues.length > 0 && <div className="text-[9px] font-bold text-rose-500 mt-1" title={issues.join('\n')}>設定有 {issues.length} 項錯誤: {issues[0]}</div>}
+                </div>
+              );
+            })}
+          </div>
+       </div>
+    </div>
+  );
+};
+
+export default ProfileManager;
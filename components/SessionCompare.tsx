@@ -0,0 +1,163 @@
+
+import React, { useEffect, useState } from 'react';
+import { X, GitCompare } from 'lucide-react';
+import { TestResult, TestSession, ERROR_CODES } from '../types';
+import { SessionStats, computeSessionStats, compareProportions, percentile } from '../utils/stats';
+
+interface SessionCompareProps {
+  isOpen: boolean;
+  sessions: TestSession[];
+  initialSessionId: number | null;
+  loadResults: (sessionId: number) => Promise<TestResult[]>;
+  onClose: () => void;
+}
+
+const HISTOGRAM_BINS = 8;
+
+const pct = (v: number) => `${(v * 100).toFixed(1)}%`;
+const ms = (v: number | undefined) => v === undefined ? '—' : `${Math.round(v)} ms`;
+
+/**
+ * 兩組數值在共用刻度下的並排長條
+ */
+const PairBars: React.FC<{ label: string; a: number; b: number; max: number; format?: (v: number) => string }> = ({ label, a, b, max, format = v => String(v) }) => (
+  <div className="flex items-center gap-2 text-[10px] font-bold">
+    <span className="w-20 shrink-0 text-slate-500 truncate text-right">{label}</span>
+    <div className="flex-1 flex flex-col gap-0.5">
+      <div className="flex items-center gap-1"><div className="h-2 rounded-sm bg-slate-400" style={{ width: `${max > 0 ? (a / max) * 100 : 0}%` }}></div><span className="text-slate-500 tabular-nums">{format(a)}</span></div>
+      <div className="flex items-center gap-1"><div className="h-2 rounded-sm bg-indigo-500" style={{ width: `${max > 0 ? (b / max) * 100 : 0}%` }}></div><span className="text-indigo-600 tabular-nums">{format(b)}</span></div>
+    </div>
+  </div>
+);
+
+const SessionCompare: React.FC<SessionCompareProps> = ({ isOpen, sessions, initialSessionId, loadResults, onClose }) => {
+  const [idA, setIdA] = useState<number | null>(null);
+  const [idB, setIdB] = useState<number | null>(null);
+  const [statsA, setStatsA] = useState<SessionStats | null>(null);
+  const [statsB, setStatsB] = useState<SessionStats | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    // 預設比較目前檢視的工作階段 (B) 與其前一個 (A)；
+    // 測試進行中 sessions 每循環都會更新，不列為相依以免覆蓋使用者的選擇
+    const idx = Math.max(0, sessions.findIndex(s => s.id === initialSessionId));
+    setIdB(sessions[idx]?.id ?? null);
+    setIdA(sessions[idx + 1]?.id ?? null);
+  }, [isOpen, initialSessionId]);
+
+  // 切換階段時忽略先前尚未完成的讀取，避免較慢的舊結果覆蓋新的選擇
+  useEffect(() => {
+    if (idA === null) { setStatsA(null); return; }
+    let stale = false;
+    loadResults(idA).then(r => { if (!stale) setStatsA(computeSessionStats(r)); });
+    return () => { stale = true; };
+  }, [idA, loadResults]);
+
+  useEffect(() => {
+    if (idB === null) { setStatsB(null); return; }
+    let stale = false;
+    loadResults(idB).then(r => { if (!stale) setStatsB(computeSessionStats(r)); });
+    return () => { stale = true; };
+  }, [idB, loadResults]);
+
+  const test = statsA && statsB ? compareProportions(statsA.success, statsA.total, statsB.success, statsB.total) : null;
+
+  const latencyBins = (() => {
+    if (!statsA || !statsB) return [];
+    const max = Math.max(statsA.latencies[statsA.latencies.length - 1] ?? 0, statsB.latencies[statsB.latencies.length - 1] ?? 0);
+    if (max === 0) return [];
+    const width = Math.ceil((max + 1) / HISTOGRAM_BINS);
+    // 以比例顯示，避免循環數不同的兩個階段無法直接比較
+    const bin = (list: number[], i: number) => list.length > 0 ? list.filter(v => Math.floor(v / width) === i).length / list.length : 0;
+    return Array.from({ length: HISTOGRAM_BINS }, (_, i) => ({ label: `${i * width}-${(i + 1) * width} ms`, a: bin(statsA.latencies, i), b: bin(statsB.latencies, i) }));
+  })();
+
+  const errorRows = statsA && statsB
+    ? Array.from(new Set([...Object.keys(statsA.errorCodes), ...Object.keys(statsB.errorCodes)])).sort()
+        .map(code => ({ code, a: (statsA.errorCodes[code] || 0) / (statsA.total || 1), b: (statsB.errorCodes[code] || 0) / (statsB.total || 1) }))
+    : [];
+
+  const tagRows = statsA && statsB
+    ? Array.from(new Set([...Object.keys(statsA.tagCounts), ...Object.keys(statsB.tagCounts)].map(Number))).sort((x, y) => x - y)
+        .map(n => ({ n, a: (statsA.tagCounts[n] || 0) / (statsA.tagCycles || 1), b: (statsB.tagCounts[n] || 0) / (statsB.tagCycles || 1) }))
+    : [];
+
+  const metricRows: { label: string; a: string; b: string }[] = statsA && statsB ? [
+    { label: '循環數', a: String(statsA.total), b: String(statsB.total) },
+    { label: '成功率', a: pct(statsA.successRate), b: pct(statsB.successRate) },
+    { label: '逾時率', a: pct(statsA.timeoutRate), b: pct(statsB.timeoutRate) },
+    ...(statsA.gradedCycles > 0 || statsB.gradedCycles > 0 ? [
+      { label: '缺少標籤率', a: pct(statsA.missingCycles / (statsA.gradedCycles || 1)), b: pct(statsB.missingCycles / (statsB.gradedCycles || 1)) },
+      { label: '非預期標籤率', a: pct(statsA.unexpectedCycles / (statsA.gradedCycles || 1)), b: pct(statsB.unexpectedCycles / (statsB.gradedCycles || 1)) }
+    ] : []),
+    { label: '平均標籤/循環', a: statsA.avgTags.toFixed(2), b: statsB.avgTags.toFixed(2) },
+    { label: '延遲 P50', a: ms(percentile(statsA.latencies, 50)), b: ms(percentile(statsB.latencies, 50)) },
+    { label: '延遲 P95', a: ms(percentile(statsA.latencies, 95)), b: ms(percentile(statsB.latencies, 95)) },
+    { label: '延遲最大', a: ms(percentile(statsA.latencies, 100)), b: ms(percentile(statsB.latencies, 100)) }
+  ] : [];
+
+  const sessionSelect = (value: number | null, onSelect: (id: number) => void, tone: string) => (
+    <select value={value ?? ''} onChange={e => onSelect(Number(e.target.value))} className={`flex-1 min-w-0 bg-slate-50 border border-slate-100 rounded-lg px-2 h-10 font-black text-xs outline-none cursor-pointer ${tone}`}>
+      <option value="" disabled>選擇工作階段</option>
+      {sessions.map(s => <option key={s.id} value={s.id}>{s.name} · {new Date(s.startedAt).toLocaleString()}</option>)}
+    </select>
+  );
+
+  return (
+    <div className={`fixed inset-0 z-[100] transition-all duration-300 ${isOpen ? 'visible opacity-100' : 'invisible opacity-0'}`}>
+       <div className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm" onClick={onClose}></div>
+       <div className={`absolute bottom-0 inset-x-0 bg-white rounded-t-[32px] p-8 shadow-2xl transition-transform duration-500 transform ${isOpen ? 'translate-y-0' : 'translate-y-full'}`}>
+          <div className="w-12 h-1 bg-slate-200 rounded-full mx-auto mb-6"></div>
+          <h3 className="font-black text-slate-800 mb-4 flex justify-between items-center uppercase tracking-widest text-sm"><span className="flex items-center gap-2"><GitCompare className="w-4 h-4" /> 工作階段比較</span> <button onClick={onClose}><X className="w-5 h-5 text-slate-400" /></button></h3>
+          <div className="flex items-center gap-2 mb-4">
+             <span className="text-[10px] font-black text-slate-400">A</span>
+             {sessionSelect(idA, setIdA, 'text-slate-600')}
+             <span className="text-[10px] font-black text-indigo-400">B</span>
+             {sessionSelect(idB, setIdB, 'text-indigo-600')}
+          </div>
+          <div className="space-y-4 max-h-[60vh] overflow-y-auto custom-scrollbar pr-2">
+             {(!statsA || !statsB) && <div className="h-32 flex items-center justify-center text-xs font-bold text-slate-300">請選擇兩個工作階段</div>}
+             {statsA && statsB && (
+               <>
+                 {test && (
+                   <div className={`p-3 rounded-xl border text-xs font-black flex items-center justify-between ${!test.significant ? 'bg-slate-50 border-slate-100 text-slate-500' : test.diff > 0 ? 'bg-emerald-50 border-emerald-100 text-emerald-600' : 'bg-rose-50 border-rose-100 text-rose-600'}`}>
+                      <span>成功率差異 (B - A): {test.diff >= 0 ? '+' : ''}{(test.diff * 100).toFixed(1)}%</span>
+                      <span>{test.significant ? (test.diff > 0 ? '顯著改善' : '顯著退步') : '差異不顯著'} (p = {test.pValue < 0.001 ? '<0.001' : test.pValue.toFixed(3)})</span>
+                   </div>
+                 )}
+                 <div className="bg-slate-50 rounded-xl border border-slate-100 overflow-hidden">
+                    {metricRows.map(row => (
+                      <div key={row.label} className="grid grid-cols-3 px-3 py-2 text-xs font-black border-b border-slate-100 last:border-0">
+                         <span className="text-slate-400">{row.label}</span>
+                         <span className="text-slate-600 tabular-nums text-right">{row.a}</span>
+                         <span className="text-indigo-600 tabular-nums text-right">{row.b}</span>
+                      </div>
+                    ))}
+                 </div>
+                 {errorRows.length > 0 && (
+                   <div className="space-y-1.5">
+                      <div className="text-[10px] font-black text-slate-400 uppercase tracking-widest">錯誤碼分布 (佔循環比例)</div>
+                      {errorRows.map(r => <PairBars key={r.code} label={ERROR_CODES[r.code] ? `${r.code} ${ERROR_CODES[r.code]}` : r.code} a={r.a} b={r.b} max={Math.max(...errorRows.map(x => Math.max(x.a, x.b)))} format={pct} />)}
+                   </div>
+                 )}
+                 {tagRows.length > 0 && (
+                   <div className="space-y-1.5">
+                      <div className="text-[10px] font-black text-slate-400 uppercase tracking-widest">每循環標籤數分布</div>
+                      {tagRows.map(r => <PairBars key={r.n} label={`${r.n} 張`} a={r.a} b={r.b} max={Math.max(...tagRows.map(x => Math.max(x.a, x.b)))} format={pct} />)}
+                   </div>
+                 )}
+                 {latencyBins.length > 0 && (
+                   <div className="space-y-1.5">
+                      <div className="text-[10px] font-black text-slate-400 uppercase tracking-widest">延遲分布</div>
+                      {latencyBins.map(r => <PairBars key={r.label} label={r.label} a={r.a} b={r.b} max={Math.max(...latencyBins.map(x => Math.max(x.a, x.b)))} format={pct} />)}
+                   </div>
+                 )}
+               </>
+             )}
+          </div>
+       </div>
+    </div>
+  );
+};
+
+export default SessionCompare;
@@ -0,0 +1,100 @@
+
+import React, { useState } from 'react';
+import { Download, Table, ArrowUp, ArrowDown } from 'lucide-react';
+import { TagStat, TagStatsReport } from '../utils/stats';
+
+interface TagStatsTableProps {
+  report: TagStatsReport;
+  channels: number[]; // 多天線時顯示各天線的讀取率 (以該天線的盤點次數為分母)
+}
+
+type SortKey = keyof TagStat;
+
+const COLUMNS: { key: SortKey; label: string }[] = [
+  { key: 'epc', label: 'EPC' },
+  { key: 'ascii', label: 'ASCII' },
+  { key: 'readCount', label: '讀取次數' },
+  { key: 'cyclesSeen', label: '讀到循環' },
+  { key: 'readRate', label: '讀取率' },
+  { key: 'longestMissStreak', label: '最長漏讀' },
+  { key: 'firstSeen', label: '首次' },
+  { key: 'lastSeen', label: '最後' }
+];
+
+// 讀取率低於此值的標籤位置視為邊際
+const MARGINAL_READ_RATE = 0.95;
+
+const printable = (s: string) => s.replace(/[^\x20-\x7E]/g, '.');
+
+const TagStatsTable: React.FC<TagStatsTableProps> = ({ report, channels }) => {
+  const { tags: stats, cycles: totalCycles } = report;
+  const [sortKey, setSortKey] = useState<SortKey>('readRate');
+  const [ascending, setAscending] = useState(true);
+
+  const sorted = [...stats].sort((a, b) => {
+    const va = a[sortKey], vb = b[sortKey];
+    const cmp = typeof va === 'number' && typeof vb === 'number' ? va - vb : String(va).localeCompare(String(vb));
+    return ascending ? cmp : -cmp;
+  });
+
+  const toggleSort = (key: SortKey) => {
+    if (key === sortKey) setAscending(!ascending);
+    else { setSortKey(key); setAscending(true); }
+  };
+
+  const exportToCSV = () => {
+    const headers = ["EPC", "ASCII", "ReadCount", "CyclesSeen", "TotalCycles", "ReadRate", "LongestMissStreak", "FirstSeen", "LastSeen", ...channels.flatMap(c => [`Ant${c}Reads`, `Ant${c}Cycles`, `Ant${c}ReadRate`])];
+    const rows = sorted.map(t => [t.epc, `"${printable(t.ascii).replace(/"/g, '""')}"`, t.readCount, t.cyclesSeen, totalCycles, t.readRate.toFixed(4), t.longestMissStreak, t.firstSeen, t.lastSeen, ...channels.flatMap(c => [t.byChannel[c]?.reads || 0, report.channelCycles[c] || 0, (t.byChannel[c]?.readRate || 0).toFixed(4)])]);
+    const csvContent = [headers, ...rows].map(e => e.join(",")).join("\n");
+    const blob = new Blob(["\ufeff" + csvContent], { type: 'text/csv;charset=utf-8;' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `RFID_Tag_Stats_${new Date().getTime()}.csv`;
+    link.click(); URL.revokeObjectURL(url);
+  };
+
+  return (
+    <div className="bg-white p-4 rounded-xl border border-slate-200 shadow-sm">
+      <div className="flex items-center justify-between mb-2">
+        <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest flex items-center gap-1"><Table className="w-3 h-3" /> 標籤統計 ({stats.length} 張 / {totalCycles} 次盤點)</span>
+        <button onClick={exportToCSV} disabled={stats.length === 0} className="text-[10px] font-black text-indigo-600 flex items-center gap-1 px-2 py-1 bg-white border border-indigo-100 rounded-lg hover:bg-indigo-50 disabled:opacity-50"><Download className="w-3 h-3" /> 匯出</button>
+      </div>
+      {stats.length === 0 ? (
+        <div className="h-16 flex items-center justify-center text-[10px] font-bold text-slate-300">無盤點 (64H/61H) 資料</div>
+      ) : (
+        <div className="overflow-x-auto custom-scrollbar">
+          <table className="w-full text-[10px] font-bold">
+            <thead>
+              <tr className="text-slate-400 uppercase">
+                {COLUMNS.map(c => (
+                  <th key={c.key} onClick={() => toggleSort(c.key)} className="text-left px-2 py-1.5 cursor-pointer select-none whitespace-nowrap hover:text-indigo-500">
+                    <span className="inline-flex items-center gap-0.5">{c.label}{sortKey === c.key && (ascending ? <ArrowUp className="w-3 h-3" /> : <ArrowDown className="w-3 h-3" />)}</span>
+                  </th>
+                ))}
+                {channels.map(c => <th key={`ant-${c}`} className="text-left px-2 py-1.5 whitespace-nowrap">天線 {c}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {sorted.map(t => (
+                <tr key={t.epc} className={`border-t border-slate-100 ${t.readRate < MARGINAL_READ_RATE ? 'bg-rose-50/50' : ''}`}>
+                  <td className="px-2 py-1.5 font-mono text-indigo-600 whitespace-nowrap">{t.epc}</td>
+                  <td className="px-2 py-1.5 font-mono text-slate-500 whitespace-nowrap">{printable(t.ascii)}</td>
+                  <td className="px-2 py-1.5 tabular-nums">{t.readCount}</td>
+                  <td className="px-2 py-1.5 tabular-nums">{t.cyclesSeen}</td>
+                  <td className={`px-2 py-1.5 tabular-nums ${t.readRate < MARGINAL_READ_RATE ? 'text-rose-600' : 'text-emerald-600'}`}>{(t.readRate * 100).toFixed(1)}%</td>
+                  <td className="px-2 py-1.5 tabular-nums">{t.longestMissStreak}</td>
+                  <td className="px-2 py-1.5 text-slate-400 whitespace-nowrap">{new Date(t.firstSeen).toLocaleTimeString()}</td>
+                  <td className="px-2 py-1.5 text-slate-400 whitespace-nowrap">{new Date(t.lastSeen).toLocaleTimeString()}</td>
+                  {channels.map(c => <td key={`ant-${c}`} title={`${t.byChannel[c]?.cyclesSeen || 0} / ${report.channelCycles[c] || 0} 次盤點，讀取 ${t.byChannel[c]?.reads || 0} 次`} className={`px-2 py-1.5 tabular-nums ${t.byChannel[c] ? '' : 'text-slate-300'}`}>{((t.byChannel[c]?.readRate || 0) * 100).toFixed(1)}%</td>)}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TagStatsTable;
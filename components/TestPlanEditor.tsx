@@ -0,0 +1,124 @@
+
+import React from 'react';
+import { X, Plus, Trash2, ArrowUp, ArrowDown, Upload, Download } from 'lucide-react';
+import { BuiltinCommandType, MEMORY_BANK_LABELS, MemoryBank, StepExpectation, TestConfig, TestPlan, TestStep } from '../types';
+import { EXPECTATION_LABELS, createStep, parsePlan, serializePlan } from '../utils/plan';
+import { COMMAND_REGISTRY, COMMAND_TYPES, CommandParamField } from '../utils/commands';
+
+interface TestPlanEditorProps {
+  isOpen: boolean;
+  plan: TestPlan;
+  config: TestConfig;
+  onChange: (plan: TestPlan) => void;
+  onClose: () => void;
+}
+
+const TestPlanEditor: React.FC<TestPlanEditorProps> = ({ isOpen, plan, config, onChange, onClose }) => {
+  const updateStep = (idx: number, patch: Partial<TestStep>) => {
+    onChange({ ...plan, steps: plan.steps.map((s, i) => i === idx ? { ...s, ...patch } : s) });
+  };
+
+  const moveStep = (idx: number, delta: number) => {
+    const target = idx + delta;
+    if (target < 0 || target >= plan.steps.length) return;
+    const steps = [...plan.steps];
+    [steps[idx], steps[target]] = [steps[target], steps[idx]];
+    onChange({ ...plan, steps });
+  };
+
+  const setParam = (idx: number, key: string, raw: string, kind: CommandParamField['kind']) => {
+    const params: any = { ...plan.steps[idx].params };
+    if (raw === '') delete params[key];
+    else if (kind === 'bank') params[key] = raw;
+    else params[key] = kind === 'number' ? (parseInt(raw) || 0) : raw.toUpperCase().replace(/[^0-9A-F]/g, '');
+    updateStep(idx, { params });
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([serializePlan(plan)], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${plan.name || 'test_plan'}.json`;
+    link.click(); URL.revokeObjectURL(url);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onChange(parsePlan(await file.text()));
+    } catch (err: any) { alert(`匯入失敗: ${err.message}`); }
+  };
+
+  return (
+    <div className={`fixed inset-0 z-[100] transition-all duration-300 ${isOpen ? 'visible opacity-100' : 'invisible opacity-0'}`}>
+       <div className="absolute inset-0 bg-slate-900/60 backdrop-blur-sm" onClick={onClose}></div>
+       <div className={`absolute bottom-0 inset-x-0 bg-white rounded-t-[32px] p-8 shadow-2xl transition-transform duration-500 transform ${isOpen ? 'translate-y-0' : 'translate-y-full'}`}>
+          <div className="w-12 h-1 bg-slate-200 rounded-full mx-auto mb-6"></div>
+          <h3 className="font-black text-slate-800 mb-4 flex justify-between items-center uppercase tracking-widest text-sm">測試計畫編輯 <button onClick={onClose}><X className="w-5 h-5 text-slate-400" /></button></h3>
+          <div className="flex items-center gap-2 mb-4">
+             <input type="text" value={plan.name} onChange={e => onChange({ ...plan, name: e.target.value })} className="flex-1 bg-slate-50 border border-slate-100 rounded-lg px-3 h-10 font-black text-sm text-slate-800 outline-none" placeholder="計畫名稱" />
+             <input type="file" accept=".json,application/json" onChange={handleImport} className="hidden" id="plan-file" />
+             <label htmlFor="plan-file" className="h-10 px-3 rounded-lg bg-white border border-slate-200 text-xs font-black text-slate-600 flex items-center gap-1.5 cursor-pointer"><Upload className="w-3.5 h-3.5" /> 匯入</label>
+             <button onClick={handleExport} className="h-10 px-3 rounded-lg bg-white border border-indigo-100 text-xs font-black text-indigo-600 flex items-center gap-1.5"><Download className="w-3.5 h-3.5" /> 匯出</button>
+          </div>
+          <div className="space-y-3 max-h-[55vh] overflow-y-auto custom-scrollbar pr-2">
+             {plan.steps.map((step, idx) => (
+               <div key={idx} className="bg-slate-50 p-3 rounded-xl border border-slate-100">
+                  <div className="flex items-center gap-2 mb-3">
+                     <span className="w-7 h-7 shrink-0 rounded-lg bg-slate-900 text-white text-[10px] font-black flex items-center justify-center">{idx + 1}</span>
+                     <input type="text" value={step.name} onChange={e => updateStep(idx, { name: e.target.value })} className="flex-1 min-w-0 bg-transparent font-black text-xs text-slate-800 outline-none" placeholder="步驟名稱" />
+                     <button onClick={() => moveStep(idx, -1)} disabled={idx === 0} className="p-1 text-slate-400 disabled:opacity-30"><ArrowUp className="w-4 h-4" /></button>
+                     <button onClick={() => moveStep(idx, 1)} disabled={idx === plan.steps.length - 1} className="p-1 text-slate-400 disabled:opacity-30"><ArrowDown className="w-4 h-4" /></button>
+                     <button onClick={() => onChange({ ...plan, steps: plan.steps.filter((_, i) => i !== idx) })} disabled={plan.steps.length <= 1} className="p-1 text-rose-400 disabled:opacity-30"><Trash2 className="w-4 h-4" /></button>
+                  </div>
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                     <div className="bg-white p-2 rounded-lg border border-slate-100 col-span-2 md:col-span-1">
+                        <label className="text-[9px] font-black text-slate-400 uppercase block mb-1">指令</label>
+                        <select value={step.commandType} onChange={e => updateStep(idx, { commandType: e.target.value as BuiltinCommandType, params: {} })} className="w-full bg-transparent font-black text-xs text-slate-800 outline-none cursor-pointer">
+                           {COMMAND_TYPES.map(t => <option key={t} value={t}>{COMMAND_REGISTRY[t].label}</option>)}
+                        </select>
+                     </div>
+                     <div className="bg-white p-2 rounded-lg border border-slate-100">
+                        <label className="text-[9px] font-black text-slate-400 uppercase block mb-1">延遲 (ms)</label>
+                        <input type="number" value={step.delayMs} onChange={e => updateStep(idx, { delayMs: Math.max(0, parseInt(e.target.value) || 0) })} className="w-full bg-transparent font-black text-xs text-slate-800 outline-none" />
+                     </div>
+                     <div className="bg-white p-2 rounded-lg border border-slate-100">
+                        <label className="text-[9px] font-black text-slate-400 uppercase block mb-1">預期結果</label>
+                        <select value={step.expect} onChange={e => updateStep(idx, { expect: e.target.value as StepExpectation })} className="w-full bg-transparent font-black text-xs text-slate-800 outline-none cursor-pointer">
+                           {(Object.keys(EXPECTATION_LABELS) as StepExpectation[]).map(k => <option key={k} value={k}>{EXPECTATION_LABELS[k]}</option>)}
+                        </select>
+                     </div>
+                     {COMMAND_REGISTRY[step.commandType].params.map(field => (
+                       <div key={field.key} className={`bg-white p-2 rounded-lg border border-slate-100 ${field.wide ? 'col-span-2' : ''}`}>
+                          <label className="text-[9px] font-black text-slate-400 uppercase block mb-1">{field.label}</label>
+                          {field.kind === 'bank' ? (
+                            <select value={step.params[field.key] ?? ''} onChange={e => setParam(idx, field.key, e.target.value, field.kind)} className="w-full bg-transparent font-black text-xs text-indigo-600 outline-none cursor-pointer">
+                               <option value="">沿用 ({MEMORY_BANK_LABELS[(config[field.key] as MemoryBank) || 'epc']})</option>
+                               {(field.banks || Object.keys(MEMORY_BANK_LABELS) as MemoryBank[]).map(b => <option key={b} value={b}>{MEMORY_BANK_LABELS[b]}</option>)}
+                            </select>
+                          ) : (
+                            <input
+                              type={field.kind === 'number' ? 'number' : 'text'}
+                              value={step.params[field.key] ?? ''}
+                              onChange={e => setParam(idx, field.key, e.target.value, field.kind)}
+                              placeholder={String(config[field.key] ?? '') || '—'}
+                              className="w-full bg-transparent font-black text-xs text-indigo-600 outline-none placeholder:text-slate-300"
+                            />
+                          )}
+                       </div>
+                     ))}
+                  </div>
+               </div>
+             ))}
+             <button onClick={() => onChange({ ...plan, steps: [...plan.steps, createStep()] })} className="w-full h-11 rounded-xl border-2 border-dashed border-slate-200 text-xs font-black text-slate-400 flex items-center justify-center gap-2 hover:border-indigo-200 hover:text-indigo-500"><Plus className="w-4 h-4" /> 新增步驟</button>
+          </div>
+          <div className="text-[10px] font-bold text-slate-400 mt-3">未填寫的參數沿用全域設定 (灰色提示值)</div>
+       </div>
+    </div>
+  );
+};
+
+export default TestPlanEditor;
@@ -1,5 +1,47 @@
 
-export type CommandType = '64H' | '61H' | '35H' | '63H' | '70H';
+// 內建指令，定義見 utils/commands.ts 的 COMMAND_REGISTRY
+export type BuiltinCommandType = '64H' | '61H' | '35H' | '63H' | '70H';
+
+// CUSTOM: 使用者組合的自訂指令 (見 CustomCommand)，不可用於測試計畫
+export type CommandType = BuiltinCommandType | 'CUSTOM';
+
+export type TransportType = 'serial' | 'simulator' | 'replay';
+
+// single: 單一指令；plan: 多步驟測試計畫；verify: 70H 寫入後以 63H 讀回比對；sweep: 射頻功率掃描
+export type RunMode = 'single' | 'plan' | 'verify' | 'sweep';
+
+// 功率掃描可使用的指令
+export type SweepCommandType = '64H' | '61H' | '63H';
+
+export type WritePattern = 'fixed' | 'random' | 'increment';
+
+// 多天線：rotate 每循環換下一個天線；iterate 每循環依序跑完所有天線
+export type ChannelMode = 'rotate' | 'iterate';
+
+// EPC Gen2 記憶體區，代碼即 70H 的 Write Data Type
+export type MemoryBank = 'reserved' | 'epc' | 'tid' | 'user';
+
+export const MEMORY_BANK_CODES: Record<MemoryBank, number> = {
+  reserved: 0x00,
+  epc: 0x01,
+  tid: 0x02,
+  user: 0x03
+};
+
+export const MEMORY_BANK_LABELS: Record<MemoryBank, string> = {
+  reserved: 'Reserved',
+  epc: 'EPC',
+  tid: 'TID',
+  user: 'User'
+};
+
+export type TestStatus = 'Success' | 'Failure' | 'Timeout' | 'CrcError' | 'FramingError' | 'Mismatch' | 'MissingTags' | 'UnexpectedTags';
+
+// 盤點結果與預期標籤組 (golden inventory) 的比對：完整 / 缺少標籤 / 出現非預期標籤
+export type InventoryGrade = 'complete' | 'missing' | 'unexpected';
+
+// 接收封包的鏈路層錯誤：CRC 不符 / 長度不符 (截斷或超長)
+export type FrameError = 'crc' | 'length';
 
 export interface TestConfig {
   commandType: CommandType;
@@ -9,8 +51,11 @@ export interface TestConfig {
   maxRecords: number;
   id: number;
   channel: number;
+  channels: number[];       // 多天線清單，少於兩個時只使用 channel
+  channelMode: ChannelMode;
   power: number;
   baudRate: number;
+  transportType: TransportType; // 'simulator' 時使用軟體模擬讀取器
   stopOnError: boolean;
   // 63H 專用參數
   userAddr: string; // 十六進制字串，例如 "0000"
@@ -19,20 +64,208 @@ export interface TestConfig {
   writeAddr: string; // 十六進制字串，例如 "0002"
   writeLen: number;  // 寫入長度 (Word)
   writeData: string; // 十六進制字串
+  writeBank: MemoryBank; // 寫入的記憶體區
+  writePattern: WritePattern; // 寫入驗證模式的資料樣式
+  targetEpc: string;  // 70H 目標標籤 EPC (十六進制字串)，空字串代表第一張找到的標籤
+  // 64H/61H 預期標籤組，空陣列代表不比對
+  expectedEpcs: string[];
+  // 功率掃描 (dbm)，每個功率點執行 sweepCyclesPerPoint 次 sweepCommand
+  sweepCommand: SweepCommandType;
+  sweepStartPower: number;
+  sweepEndPower: number;
+  sweepStepPower: number;
+  sweepCyclesPerPoint: number;
+  // 韌體更新 F1H 重送設定
+  fwMaxRetries: number;
+  fwAckTimeoutMs: number;
+  fwBackoffMs: number;   // 第一次重試前的等待，之後每次加倍
+  // commandType 為 CUSTOM 時使用的自訂指令
+  customCommandId: string;
+}
+
+// 具名設定檔 (例如「3 號治具 38400 64H 25 dBm」)，可快速切換並匯出至其他測試機
+export interface ConfigProfile {
+  id: string;
+  name: string;
+  config: TestConfig;
+  updatedAt: string; // ISO 8601
+}
+
+// 測試計畫步驟可覆寫的參數，未填寫者沿用全域設定
+export type StepParams = Partial<Pick<TestConfig,
+  'channel' | 'power' | 'timeoutMs' | 'maxRecords' | 'userAddr' | 'userLen' | 'writeAddr' | 'writeLen' | 'writeData' | 'targetEpc' | 'writeBank'>>;
+
+// success: 錯誤碼為成功；failure: 讀取器回應錯誤碼 (負向測試)；any: 不判定
+export type StepExpectation = 'success' | 'failure' | 'any';
+
+export interface TestStep {
+  name: string;
+  commandType: BuiltinCommandType;
+  params: StepParams;
+  delayMs: number; // 執行本步驟前的延遲
+  expect: StepExpectation;
+}
+
+export interface TestPlan {
+  name: string;
+  steps: TestStep[];
 }
 
 export interface TestResult {
   timestamp: string;
   cycle: number;
-  status: 'Success' | 'Failure' | 'Timeout';
+  status: TestStatus;
   errorCode: string;
   errorMsg: string;
   rawTx: string;
   rawRx: string;
   recordsFound: number;
   cmdType: CommandType;
-  userData?: string;   // 63H 讀回來的 User Memory Data
+  epcList?: string[];  // 64H/61H 本循環讀到的 EPC
+  tagReads?: Record<string, number>; // 64H/61H 每個 EPC 的原始讀取次數 (未去除重複)
+  configPower?: number; // 送出的射頻功率 (dbm)
+  channel?: number;     // 使用的天線
+  userData?: string;   // 63H 讀回來的 User Memory 資料
+  bank?: MemoryBank;   // 63H/70H 存取的記憶體區 (63H 固定為 User)
   fwVersion?: string;  // 35H 讀回來的韌體版本
+  frameErrors?: number; // 本次循環收到的錯誤封包數
+  // 測試計畫專用欄位
+  step?: number;        // 步驟序號 (從 1 開始)
+  stepName?: string;
+  expect?: StepExpectation;
+  passed?: boolean;     // 結果是否符合預期
+  verify?: WriteVerifyResult; // 寫入驗證模式的比對結果
+  targetEpc?: string;   // 70H 指定的目標 EPC
+  sessionId?: number;   // 所屬的測試工作階段
+  inventoryGrade?: InventoryGrade; // 設定預期標籤組時的盤點判定
+  missingEpcs?: string[];
+  unexpectedEpcs?: string[];
+  timing?: CycleTiming;
+  customCommand?: string; // 自訂指令名稱 (cmdType 為 CUSTOM)
+}
+
+/**
+ * 單一循環的時間點，皆為高解析度 epoch 毫秒 (performance.timeOrigin + performance.now())
+ */
+export interface CycleTiming {
+  txAt: number;          // 送出請求
+  firstByteAt?: number;  // 收到第一個位元組
+  firstTagAt?: number;   // 收到第一筆標籤 (64H/61H)
+  completedAt?: number;  // 收到結束/回應封包
+}
+
+/**
+ * 自訂指令：送出時自動補上 SOF、LEN 與 CRC，成功與否依響應中指定位置的錯誤碼判定
+ */
+export interface CustomCommand {
+  id: string;
+  name: string;
+  cmd: number;             // CMD 位元組
+  payload: string;         // Reader ID 之後、CRC 之前的資料 (十六進制，空白分隔)
+  errorOffset: number;     // 響應中 2 Bytes 錯誤碼的位置，負值由封包尾端起算 (-3 為 CRC 之前)
+  successCodes: string[];  // 視為成功的錯誤碼；空陣列代表收到響應即成功
+}
+
+export interface WriteVerifyResult {
+  written: string;          // 寫入的資料 (Hex)
+  readBack: string;         // 63H 讀回的資料 (Hex)
+  mismatchBytes: number[];  // 不一致的位元組索引
+  match: boolean;
+}
+
+export interface TestSession {
+  id?: number;          // IndexedDB 自動產生
+  name: string;
+  note: string;         // 作業員備註
+  startedAt: string;
+  endedAt?: string;     // 未結束 (例如頁面中途關閉) 時為空
+  runMode: RunMode;
+  planName?: string;
+  config: TestConfig;   // 開始時的設定快照
+  deviceId: number;
+  fwVersion?: string;
+  total: number;
+  success: number;
+}
+
+/**
+ * 韌體更新進度，用於中斷後由最後確認的頁續傳
+ */
+export interface FirmwareProgress {
+  deviceId: number;
+  fileName: string;
+  fileSize: number;
+  fingerprint: string;   // CS1/CS2，確認續傳時是同一個檔案
+  totalPages: number;
+  confirmedPage: number; // 最後一個收到 F1H 成功回應的頁碼
+  updatedAt: string;
+}
+
+export type FirmwareOutcome = 'success' | 'unverified' | 'versionMismatch' | 'failed' | 'cancelled' | 'interrupted';
+
+export const FIRMWARE_OUTCOME_LABELS: Record<FirmwareOutcome, string> = {
+  success: '成功',
+  unverified: '未確認版本',
+  versionMismatch: '版本不符',
+  failed: '失敗',
+  cancelled: '已中止',
+  interrupted: '未完成' // 更新途中關閉頁面
+};
+
+/**
+ * 韌體更新稽核紀錄：每次更新 (含續傳) 一筆
+ */
+export interface FirmwareAuditEntry {
+  id?: number;
+  deviceId: number;
+  fileName: string;
+  fileSize: number;
+  cs1: string;
+  cs2: string;
+  imageVersion: string;
+  versionBefore?: string; // 更新前 35H (續傳時不查詢)
+  versionAfter?: string;  // F2H 後 35H
+  startedAt: string;
+  endedAt?: string;
+  resumedFrom: number;    // 0 表示由 F0H 開始
+  totalPages: number;
+  pagesSent: number;      // 本次確認的頁數
+  retries: number;
+  outcome: FirmwareOutcome;
+  error?: string;
+}
+
+/**
+ * 原始收發擷取 (每個 TX/RX 區塊一筆 CaptureChunk)
+ */
+export interface Capture {
+  id?: number;
+  name: string;
+  startedAt: string;
+  endedAt?: string;
+  baudRate: number;
+  transportType: TransportType;
+  deviceId: number;
+  chunkCount: number;
+}
+
+export interface CaptureChunk {
+  captureId?: number;
+  t: number;          // 相對擷取開始的毫秒 (小數為微秒)
+  dir: 'tx' | 'rx';
+  data: string;       // 十六進制，以空白分隔
+}
+
+export interface BusDevice {
+  id: number;
+  fwVersion: string;
+  latencyMs: number; // 35H 請求至回應的時間
+}
+
+export interface BusMap {
+  scannedAt: string;
+  baudRate: number;
+  devices: BusDevice[];
 }
 
 export const ERROR_CODES: Record<string, string> = {
@@ -55,3 +288,8 @@ export const ERROR_CODES: Record<string, string> = {
   '8003': '更新資料 CheckSum 1 與 CheckSum 2 錯誤',
   'FFFF': '其它錯誤'
 };
+
+export const FRAME_ERROR_MESSAGES: Record<FrameError, string> = {
+  crc: 'CRC 校驗錯誤',
+  length: '封包長度錯誤'
+};
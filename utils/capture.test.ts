@@ -0,0 +1,45 @@
+
+import { describe, it, expect } from 'vitest';
+import { Capture, CaptureChunk } from '../types';
+import { parseCapture, serializeCapture } from './capture';
+
+const capture: Capture = {
+  name: '治具 3', startedAt: '2026-01-01T00:00:00.000Z', baudRate: 115200, transportType: 'simulator', deviceId: 2, chunkCount: 2
+};
+const chunks: CaptureChunk[] = [
+  { t: 0.1234, dir: 'tx', data: '80 00 03 35 01 B7' },
+  { t: 30.5, dir: 'rx', data: '08 00 05 35 01 00 01 38' }
+];
+
+describe('serializeCapture / parseCapture', () => {
+  it('匯出後可還原，時間保留三位小數', () => {
+    const parsed = parseCapture(serializeCapture(capture, chunks));
+    expect(parsed.capture).toEqual(capture);
+    expect(parsed.chunks).toEqual([{ ...chunks[0], t: 0.123 }, chunks[1]]);
+  });
+
+  it('整理資料格式並依時間排序，缺少的檔頭欄位使用預設值', () => {
+    const text = [
+      JSON.stringify({ format: 'rfid-capture', version: 1, transport: 'bluetooth' }),
+      JSON.stringify({ t: 5, dir: 'rx', data: '0800' }),
+      '',
+      JSON.stringify({ t: 1, dir: 'tx', data: '80-00-03' })
+    ].join('\r\n');
+    const parsed = parseCapture(text);
+    expect(parsed.capture).toMatchObject({ name: '匯入的擷取', baudRate: 38400, transportType: 'serial', deviceId: 0, chunkCount: 2 });
+    expect(parsed.chunks).toEqual([{ t: 1, dir: 'tx', data: '80 00 03' }, { t: 5, dir: 'rx', data: '08 00' }]);
+  });
+
+  it.each([
+    ['', '檔案為空'],
+    ['{', '第 1 行不是有效的 JSON'],
+    [JSON.stringify({ format: 'other' }), '不是擷取檔'],
+    [JSON.stringify({ format: 'rfid-capture', version: 2 }), '不支援的擷取檔版本 2'],
+    [`${JSON.stringify({ format: 'rfid-capture', version: 1 })}\nnull`, '第 2 行格式錯誤'],
+    [`${JSON.stringify({ format: 'rfid-capture', version: 1 })}\n{"t":1,"dir":"up","data":"00"}`, '第 2 行格式錯誤'],
+    [`${JSON.stringify({ format: 'rfid-capture', version: 1 })}\n{"t":1,"dir":"tx","data":"000"}`, '第 2 行格式錯誤'],
+    [`${JSON.stringify({ format: 'rfid-capture', version: 1 })}\n{"t":1,`, '第 2 行不是有效的 JSON']
+  ])('拒絕格式錯誤的擷取檔 %#', (text, message) => {
+    expect(() => parseCapture(text)).toThrow(message);
+  });
+});
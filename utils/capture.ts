@@ -0,0 +1,67 @@
+
+import { Capture, CaptureChunk, TransportType } from '../types';
+
+/**
+ * 擷取檔格式 (.rfidcap.jsonl)：UTF-8 JSON Lines
+ *
+ * 第 1 行為檔頭：
+ *   {"format":"rfid-capture","version":1,"name":"...","startedAt":"<ISO 8601>","baudRate":38400,"transport":"serial","deviceId":1}
+ * 之後每行一個收發區塊，依時間排序：
+ *   {"t":12.345,"dir":"tx","data":"80 00 03 35 01 B7"}
+ *   - t:    相對 startedAt 的毫秒，保留三位小數 (微秒)
+ *   - dir:  "tx" 為送往讀取器，"rx" 為自讀取器收到
+ *   - data: 該次寫入/讀取的原始位元組 (十六進制，空白分隔)，不保證為完整封包
+ */
+export const CAPTURE_FORMAT = 'rfid-capture';
+export const CAPTURE_VERSION = 1;
+export const CAPTURE_FILE_EXT = '.rfidcap.jsonl';
+
+const TRANSPORT_TYPES: TransportType[] = ['serial', 'simulator', 'replay'];
+
+const isRecord = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null;
+
+export const serializeCapture = (capture: Capture, chunks: CaptureChunk[]): string => {
+  const header = {
+    format: CAPTURE_FORMAT, version: CAPTURE_VERSION, name: capture.name, startedAt: capture.startedAt,
+    baudRate: capture.baudRate, transport: capture.transportType, deviceId: capture.deviceId
+  };
+  const lines = chunks.map(c => JSON.stringify({ t: Math.round(c.t * 1000) / 1000, dir: c.dir, data: c.data }));
+  return [JSON.stringify(header), ...lines].join('\n') + '\n';
+};
+
+/**
+ * 解析擷取檔，格式不符時拋出錯誤 (訊息含行號)
+ */
+export const parseCapture = (text: string): { capture: Capture; chunks: CaptureChunk[] } => {
+  const lines = text.split(/\r?\n/).filter(line => line.trim());
+  if (lines.length === 0) throw new Error('檔案為空');
+  let header: unknown;
+  try { header = JSON.parse(lines[0]); } catch (e) { throw new Error('第 1 行不是有效的 JSON'); }
+  if (!isRecord(header) || header.format !== CAPTURE_FORMAT) throw new Error('不是擷取檔 (format 欄位不符)');
+  if (header.version !== CAPTURE_VERSION) throw new Error(`不支援的擷取檔版本 ${header.version}`);
+
+  const chunks = lines.slice(1).map((line, i) => {
+    let row: unknown;
+    try { row = JSON.parse(line); } catch (e) { throw new Error(`第 ${i + 2} 行不是有效的 JSON`); }
+    if (!isRecord(row)) throw new Error(`第 ${i + 2} 行格式錯誤`);
+    const { t, dir } = row;
+    const data = String(row.data ?? '').toUpperCase().replace(/[^0-9A-F]/g, '');
+    if (typeof t !== 'number' || (dir !== 'tx' && dir !== 'rx') || data.length === 0 || data.length % 2 !== 0) {
+      throw new Error(`第 ${i + 2} 行格式錯誤`);
+    }
+    const chunk: CaptureChunk = { t, dir, data: data.match(/.{2}/g)!.join(' ') };
+    return chunk;
+  });
+
+  return {
+    capture: {
+      name: String(header.name || '匯入的擷取'),
+      startedAt: String(header.startedAt || new Date().toISOString()),
+      baudRate: Number(header.baudRate) || 38400,
+      transportType: TRANSPORT_TYPES.find(type => type === header.transport) || 'serial',
+      deviceId: Number(header.deviceId) || 0,
+      chunkCount: chunks.length
+    },
+    chunks: chunks.sort((a, b) => a.t - b.t)
+  };
+};
@@ -0,0 +1,372 @@
+
+import { BuiltinCommandType, CommandType, MemoryBank, MEMORY_BANK_CODES, MEMORY_BANK_LABELS, StepParams, TestConfig } from '../types';
+import { buildFrame, calculateCS1, calculateCS2, hexToAscii, hexToUint8Array, uint8ArrayToHex, DecodedPacket } from './protocol';
+import { formatChecksum } from './firmware';
+
+/**
+ * 指令登錄表：每個指令在此宣告請求參數、請求與響應的欄位版面、完成條件、成功判定與顯示方式，
+ * 執行器 (runSingleTest)、請求組包 (buildRequest)、封包解碼 (decodePacket)、封包檢視器、
+ * 設定面板、測試計畫與歷史紀錄皆由此產生。
+ *
+ * 新增指令：於 types.ts 的 BuiltinCommandType 加入代號，再於 COMMAND_REGISTRY 加入對應的定義
+ */
+
+export interface CommandParamField {
+  key: keyof StepParams;
+  label: string;
+  kind: 'number' | 'hex' | 'bank' | 'epc'; // epc: 十六進制，設定面板附最近盤點的標籤可點選
+  shared?: boolean;       // 全域設定已有的欄位 (天線、功率、逾時、標籤上限)，設定面板不重複顯示
+  min?: number;
+  max?: number;
+  maxLength?: number;     // 十六進制字元數上限
+  banks?: MemoryBank[];   // 可選的記憶體區，未指定為全部
+  placeholder?: string;
+  wide?: boolean;         // 佔兩欄
+  hint?: (cfg: TestConfig) => string;
+}
+
+// uint: 大端序無號整數；hex: 原始位元組；ascii: 文字；error: 2 Bytes 錯誤碼
+export type FieldFormat = 'uint' | 'hex' | 'ascii' | 'error';
+
+/**
+ * 封包中的一個欄位。位置以 SOF 為 0 起算，負值由封包尾端起算 (-1 為 CRC，-3 為其前的 Error Code)
+ */
+export interface LayoutField {
+  label: string;
+  start: number;
+  end: number;                              // 不含
+  format: FieldFormat;
+  key?: keyof DecodedPacket;                // 響應：解出至 DecodedPacket 的欄位
+  when?: (packet: Uint8Array) => boolean;   // 只在條件成立時存在，例如 64H 依 Status 區分版面
+  /** 請求：由設定產生欄位值；Uint8Array 不足欄位長度時補 0x00，end 為負值的變長欄位依內容長度 */
+  encode?: (cfg: TestConfig) => number | Uint8Array;
+  meaning?: (bytes: Uint8Array, packet: Uint8Array) => string | undefined; // 封包檢視器的說明，未指定時依 format 顯示
+  valid?: (bytes: Uint8Array, packet: Uint8Array) => boolean;             // 不成立時封包檢視器標示為錯誤
+}
+
+/**
+ * 請求或響應的欄位版面 (Reader ID 之後、CRC 之前)，由組包、decodePacket 與封包檢視器共用
+ */
+export interface FrameLayout {
+  fields: LayoutField[];
+  minLength?: (packet: Uint8Array) => number; // 響應最小長度 (含 SOF 與 CRC)，不足時為長度錯誤
+  fixed?: Partial<DecodedPacket>;             // 響應中沒有對應欄位的固定解碼值
+}
+
+// 單一循環累積的響應資料
+export interface CycleData {
+  epcList: string[];
+  tagReads: Record<string, number>; // EPC → 本循環回報次數 (epcList 已去除重複)
+  userData: string;
+  fwVersion: string;
+}
+
+export interface ResponseContext {
+  data: CycleData;
+  log: (msg: string, type: 'rx' | 'info' | 'tag' | 'error') => void;
+  markTag: (receivedAt?: number) => void; // 記錄第一筆標籤的時間
+}
+
+export interface CommandCompletion {
+  errorCode: string;
+  message?: string; // 未指定時依 ERROR_CODES 顯示
+}
+
+// 歷史紀錄的資料預覽
+export type ResultPreview = 'epc' | 'memory' | 'version';
+
+export interface CommandDefinition {
+  type: CommandType;
+  cmd: number;
+  label: string;
+  shortLabel: string;
+  accent: 'indigo' | 'emerald'; // 設定面板的色系
+  params: CommandParamField[];  // 可由測試計畫步驟覆寫的參數
+  request: FrameLayout;
+  response?: FrameLayout;       // 未宣告時只解出 CMD 與 ID
+  /** 處理一個 CMD 相符的響應，本循環完成時回傳結果 */
+  handle: (p: DecodedPacket, ctx: ResponseContext) => CommandCompletion | null;
+  isSuccess: (errorCode: string) => boolean;
+  inventory?: 'multi' | 'single'; // 盤點指令，與預期標籤組比對 (single 每次只回應一張標籤)
+  bank?: 'read' | 'write';        // 結果記錄的記憶體區：read 為 User (63H 只能讀 User)，write 為 writeBank
+  writesTag?: boolean;            // 寫入標籤，場域內多張標籤時必須指定目標
+  preview?: ResultPreview;
+}
+
+export const isSuccessCode = (code: string): boolean => code === '0001' || code === '0000';
+
+/**
+ * 欄位在此封包中的位元組範圍 [start, end)；條件不成立時為 null (範圍可能超出封包，由呼叫端處理)
+ */
+export const fieldRange = (field: LayoutField, packet: Uint8Array): [number, number] | null => {
+  if (field.when && !field.when(packet)) return null;
+  const at = (pos: number) => pos < 0 ? packet.length + pos : pos;
+  return [at(field.start), at(field.end)];
+};
+
+// 大端序無號整數 (4 Bytes 以上不會變成負數)
+export const fieldNumber = (bytes: Uint8Array): number => bytes.reduce((acc, b) => acc * 256 + b, 0);
+
+/**
+ * 依請求版面組出完整的請求封包
+ */
+export const buildRequest = (def: CommandDefinition, cfg: TestConfig): Uint8Array => {
+  const payload: number[] = [];
+  def.request.fields.forEach(field => {
+    const size = field.end > 0 ? field.end - field.start : undefined;
+    const value = field.encode ? field.encode(cfg) : 0;
+    if (value instanceof Uint8Array) {
+      const bytes = Array.from(size === undefined ? value : value.slice(0, size));
+      payload.push(...bytes, ...new Array(size === undefined ? 0 : size - bytes.length).fill(0));
+    } else {
+      for (let i = (size ?? 1) - 1; i >= 0; i--) payload.push(Math.floor(value / 256 ** i) & 0xFF);
+    }
+  });
+  return buildFrame(cfg.id, def.cmd, new Uint8Array(payload));
+};
+
+const recordTag = (p: DecodedPacket, epc: string, ctx: ResponseContext) => {
+  ctx.markTag(p.receivedAt);
+  ctx.log(`[RX] 標籤: ${epc}`, 'tag');
+  if (epc.replace(/\s/g, '').length > 0) ctx.log(`[RX] EPC (ASCII): ${hexToAscii(epc)}`, 'info');
+  if (!ctx.data.epcList.includes(epc)) ctx.data.epcList.push(epc);
+  ctx.data.tagReads[epc] = (ctx.data.tagReads[epc] || 0) + 1;
+};
+
+const BANK_BY_CODE = Object.fromEntries(Object.entries(MEMORY_BANK_CODES).map(([bank, code]) => [code, bank])) as Record<number, MemoryBank>;
+
+const antennaMeaning = (bytes: Uint8Array) => `天線 ${bytes[0]}`;
+const wordCountMeaning = (bytes: Uint8Array) => `${bytes[0]} Words (${bytes[0] * 2} Bytes)`;
+const epcLengthMeaning = (bytes: Uint8Array) => `EPC 長度 ${(fieldNumber(bytes) >> 11) * 2} Bytes`;
+
+const ANTENNA_FIELD: LayoutField = { label: 'Antenna', start: 5, end: 6, format: 'uint', encode: cfg => cfg.channel, meaning: antennaMeaning };
+// Error Code 位於封包末尾倒數第 3, 2 個 Byte (CRC 之前)
+const TRAILING_ERROR: LayoutField = { label: 'Error Code', start: -3, end: -1, format: 'error', key: 'errorCode' };
+
+const CHANNEL: CommandParamField = { key: 'channel', label: '天線', kind: 'number', shared: true };
+const POWER: CommandParamField = { key: 'power', label: '功率 (dbm)', kind: 'number', shared: true };
+const TIMEOUT: CommandParamField = { key: 'timeoutMs', label: '逾時 (ms)', kind: 'number', shared: true };
+
+const isEndOfInventory = (packet: Uint8Array) => packet[6] === 0x01;
+const isTagRecord = (packet: Uint8Array) => packet[6] === 0x00;
+
+export const COMMAND_REGISTRY: Record<BuiltinCommandType, CommandDefinition> = {
+  '64H': {
+    type: '64H', cmd: 0x64, label: 'Read EPC Data Advance(64H)', shortLabel: 'EPC (64H)', accent: 'indigo',
+    params: [CHANNEL, POWER, TIMEOUT, { key: 'maxRecords', label: '標籤上限', kind: 'number', shared: true }],
+    request: {
+      fields: [
+        ANTENNA_FIELD,
+        { label: 'Power', start: 6, end: 8, format: 'uint', encode: cfg => cfg.power, meaning: b => `${fieldNumber(b)} dbm` },
+        { label: 'Timeout', start: 8, end: 12, format: 'uint', encode: cfg => cfg.timeoutMs, meaning: b => `${fieldNumber(b)} ms` },
+        { label: 'Max Records', start: 12, end: 16, format: 'uint', encode: cfg => cfg.maxRecords > 0 ? cfg.maxRecords : 0xFFFFFFFF,
+          meaning: b => fieldNumber(b) === 0xFFFFFFFF ? '不限' : `${fieldNumber(b)} 筆` }
+      ]
+    },
+    response: {
+      minLength: packet => isEndOfInventory(packet) ? 14 : 17,
+      fields: [
+        ANTENNA_FIELD,
+        { label: 'Status', start: 6, end: 7, format: 'uint', key: 'status', meaning: b => b[0] === 0x01 ? '盤點結束' : b[0] === 0x00 ? '標籤資料' : '未知' },
+        // 盤點結束：找到的標籤總數與錯誤碼
+        { label: 'Count', start: 7, end: 11, format: 'uint', key: 'count', when: isEndOfInventory, meaning: b => `共 ${fieldNumber(b)} 張` },
+        { label: 'Error Code', start: 11, end: 13, format: 'error', key: 'errorCode', when: isEndOfInventory },
+        // 標籤資料：EPC 長度不定，其後的欄位由封包尾端起算
+        { label: 'PC', start: 7, end: 9, format: 'uint', when: isTagRecord, meaning: epcLengthMeaning },
+        { label: 'EPC', start: 9, end: -8, format: 'hex', key: 'epc', when: isTagRecord },
+        { label: 'RSSI', start: -8, end: -7, format: 'uint', when: isTagRecord },
+        { label: 'Count', start: -7, end: -3, format: 'uint', key: 'count', when: isTagRecord, meaning: b => `第 ${fieldNumber(b)} 筆` },
+        { ...TRAILING_ERROR, when: isTagRecord }
+      ]
+    },
+    handle: (p, ctx) => {
+      if (p.status === 0x01) {
+        ctx.log(`[RX] 結束: 找到 ${p.count} 筆`, 'rx');
+        return { errorCode: p.errorCode };
+      }
+      if (p.status === 0x00 && p.epc) recordTag(p, p.epc, ctx);
+      return null;
+    },
+    isSuccess: isSuccessCode, inventory: 'multi', preview: 'epc'
+  },
+  '61H': {
+    type: '61H', cmd: 0x61, label: 'Read EPC Data Auto Power(61H)', shortLabel: 'Auto (61H)', accent: 'indigo',
+    params: [CHANNEL, TIMEOUT],
+    request: { fields: [ANTENNA_FIELD] },
+    response: {
+      minLength: () => 9,
+      // 未讀到標籤時只有 Antenna 與錯誤碼
+      fields: [
+        ANTENNA_FIELD,
+        { label: 'Power', start: 6, end: 7, format: 'uint', when: p => p.length > 10, meaning: b => `${b[0]} dbm` },
+        { label: 'PC', start: 7, end: 9, format: 'uint', when: p => p.length > 10, meaning: epcLengthMeaning },
+        { label: 'EPC', start: 9, end: -3, format: 'hex', key: 'epc', when: p => p.length > 10 },
+        TRAILING_ERROR
+      ]
+    },
+    handle: (p, ctx) => {
+      if (p.epc) recordTag(p, p.epc, ctx);
+      return p.errorCode !== 'N/A' ? { errorCode: p.errorCode } : null;
+    },
+    isSuccess: isSuccessCode, inventory: 'single', preview: 'epc'
+  },
+  '63H': {
+    type: '63H', cmd: 0x63, label: 'Read User Memory Auto Power(63H)', shortLabel: 'User (63H)', accent: 'indigo',
+    params: [
+      CHANNEL,
+      { key: 'userAddr', label: '起始位址 (Hex)', kind: 'hex', maxLength: 4, placeholder: '0000' },
+      { key: 'userLen', label: '讀取長度 (Word)', kind: 'number', min: 1 },
+      TIMEOUT
+    ],
+    request: {
+      fields: [
+        ANTENNA_FIELD,
+        { label: 'Data-Addr', start: 6, end: 8, format: 'uint', encode: cfg => parseInt(cfg.userAddr, 16) || 0, meaning: b => `Word ${fieldNumber(b)}` },
+        { label: 'Data-Len', start: 8, end: 9, format: 'uint', encode: cfg => cfg.userLen, meaning: wordCountMeaning }
+      ]
+    },
+    response: {
+      minLength: () => 9,
+      // User Memory Data 從 index 9 開始到 Error Code 之前，讀取失敗時只有 Antenna 與錯誤碼
+      fields: [
+        ANTENNA_FIELD,
+        { label: 'Data-Addr', start: 6, end: 8, format: 'uint', when: p => p.length > 12, meaning: b => `Word ${fieldNumber(b)}` },
+        { label: 'Data-Len', start: 8, end: 9, format: 'uint', when: p => p.length > 12, meaning: wordCountMeaning },
+        { label: 'User Data', start: 9, end: -3, format: 'hex', key: 'userData', when: p => p.length > 12 },
+        TRAILING_ERROR
+      ]
+    },
+    handle: (p, ctx) => {
+      if (p.userData) {
+        ctx.log(`[RX] User Data: ${p.userData}`, 'info');
+        if (p.userData.replace(/\s/g, '').length > 0) ctx.log(`[RX] User Data (ASCII): ${hexToAscii(p.userData)}`, 'info');
+        ctx.data.userData = p.userData;
+      }
+      return p.errorCode !== 'N/A' ? { errorCode: p.errorCode } : null;
+    },
+    isSuccess: isSuccessCode, bank: 'read', preview: 'memory'
+  },
+  '70H': {
+    type: '70H', cmd: 0x70, label: 'Write Tag Data(70H)', shortLabel: 'Write (70H)', accent: 'emerald',
+    params: [
+      CHANNEL, POWER,
+      { key: 'writeBank', label: '記憶體區', kind: 'bank', banks: ['reserved', 'epc', 'user'] },
+      { key: 'writeAddr', label: '寫入位址 (Hex)', kind: 'hex', maxLength: 4, placeholder: '0002' },
+      { key: 'writeLen', label: '寫入長度 (Word)', kind: 'number', min: 1, max: 6 },
+      { key: 'writeData', label: '寫入資料 (Hex)', kind: 'hex', placeholder: 'FFFF...', wide: true,
+        hint: cfg => `目前長度: ${cfg.writeData.length / 2} Byte (需為 ${cfg.writeLen * 2} Byte)` },
+      { key: 'targetEpc', label: '目標 EPC (Hex，空白為第一張)', kind: 'epc', maxLength: 24, placeholder: '第一張找到的標籤', wide: true },
+      TIMEOUT
+    ],
+    request: {
+      fields: [
+        ANTENNA_FIELD,
+        { label: 'Write Data Type', start: 6, end: 7, format: 'uint', encode: cfg => MEMORY_BANK_CODES[cfg.writeBank || 'epc'],
+          meaning: b => MEMORY_BANK_LABELS[BANK_BY_CODE[b[0]]] || '未知' },
+        { label: 'Power', start: 7, end: 8, format: 'uint', encode: cfg => cfg.power, meaning: b => `${b[0]} dbm` },
+        // 目標 EPC 為空時寫入第一張找到的標籤 (0xFF)，否則只寫入 EPC 前綴相符的標籤 (最多 12 Bytes，不足補 0x00)
+        { label: 'Target EPC Len', start: 8, end: 9, format: 'uint', encode: cfg => Math.min(12, hexToUint8Array(cfg.targetEpc || '').length) || 0xFF,
+          meaning: b => b[0] === 0xFF ? '第一張找到的標籤' : `${b[0]} Bytes` },
+        { label: 'Target EPC', start: 9, end: 21, format: 'hex', encode: cfg => hexToUint8Array(cfg.targetEpc || ''),
+          meaning: (b, p) => p[8] === 0xFF ? '(未使用)' : uint8ArrayToHex(b.slice(0, p[8])) },
+        { label: 'Addr', start: 21, end: 23, format: 'uint', encode: cfg => parseInt(cfg.writeAddr, 16) || 0, meaning: b => `Word ${fieldNumber(b)}` },
+        { label: 'Len', start: 23, end: 24, format: 'uint', encode: cfg => cfg.writeLen, meaning: wordCountMeaning },
+        { label: 'Write Data', start: 24, end: -1, format: 'hex', encode: cfg => hexToUint8Array(cfg.writeData),
+          meaning: (b, p) => b.length === p[23] * 2 ? `${b.length} Bytes` : `${b.length} Bytes (Len 指定 ${p[23] * 2} Bytes)`,
+          valid: (b, p) => b.length === p[23] * 2 }
+      ]
+    },
+    response: {
+      minLength: () => 9,
+      fields: [
+        ANTENNA_FIELD,
+        { label: 'Error Code', start: 6, end: 8, format: 'error', key: 'errorCode' }
+      ]
+    },
+    handle: (p, ctx) => {
+      const ok = isSuccessCode(p.errorCode);
+      ctx.log(`[RX] 寫入結果: ${ok ? '成功' : '失敗'}`, ok ? 'info' : 'error');
+      return { errorCode: p.errorCode };
+    },
+    isSuccess: isSuccessCode, bank: 'write', writesTag: true
+  },
+  '35H': {
+    type: '35H', cmd: 0x35, label: 'Read FW Version(35H)', shortLabel: 'FW (35H)', accent: 'indigo',
+    params: [TIMEOUT],
+    request: { fields: [] },
+    response: {
+      minLength: () => 8,
+      fields: [
+        { label: 'FW Version', start: 5, end: -3, format: 'ascii', key: 'fwVersion' },
+        TRAILING_ERROR
+      ]
+    },
+    handle: (p, ctx) => {
+      ctx.log(`[RX] 版本: ${p.fwVersion}`, 'rx');
+      ctx.data.fwVersion = p.fwVersion || '';
+      return { errorCode: p.errorCode };
+    },
+    isSuccess: isSuccessCode, preview: 'version'
+  }
+};
+
+// 指令選單與測試計畫的順序
+export const COMMAND_TYPES = Object.keys(COMMAND_REGISTRY) as BuiltinCommandType[];
+
+/**
+ * 韌體更新指令的版面 (不屬於壓力測試指令，請求由 protocol.ts 的 buildF*Request 組出)
+ */
+const UPDATE_LAYOUTS: Record<number, { label: string; request: FrameLayout; response: FrameLayout }> = {
+  0xF0: {
+    label: 'Enter Update Mode(F0H)',
+    request: { fields: [] },
+    // 響應沒有錯誤碼欄位，收到即視為成功
+    response: { minLength: () => 10, fixed: { errorCode: '0001' }, fields: [{ label: 'Update Count', start: 5, end: 9, format: 'uint', key: 'updateCount', meaning: b => `已更新 ${fieldNumber(b)} 次` }] }
+  },
+  0xF1: {
+    label: 'Transmit Update Packet(F1H)',
+    request: {
+      fields: [
+        { label: 'Packet Num', start: 5, end: 7, format: 'uint', meaning: b => `第 ${fieldNumber(b)} 頁` },
+        { label: 'Update Data', start: 7, end: -1, format: 'hex', meaning: b => `${b.length} Bytes · CS1 ${formatChecksum(calculateCS1(b))} · CS2 ${formatChecksum(calculateCS2(b))}` }
+      ]
+    },
+    response: {
+      minLength: () => 10,
+      fields: [
+        { label: 'Packet Num', start: 5, end: 7, format: 'uint', key: 'currentPacketNum', meaning: b => `第 ${fieldNumber(b)} 頁` },
+        { label: 'Error Code', start: 7, end: 9, format: 'error', key: 'errorCode' }
+      ]
+    }
+  },
+  0xF2: {
+    label: 'Start FW Update(F2H)',
+    request: { fields: [] },
+    response: { minLength: () => 8, fields: [{ label: 'Error Code', start: 5, end: 7, format: 'error', key: 'errorCode' }] }
+  }
+};
+
+// 依 CMD 位元組查詢指令名稱與請求、響應版面
+export const COMMAND_NAMES: Record<number, string> = {
+  ...Object.fromEntries(Object.values(COMMAND_REGISTRY).map(d => [d.cmd, d.label])),
+  ...Object.fromEntries(Object.entries(UPDATE_LAYOUTS).map(([cmd, l]) => [cmd, l.label]))
+};
+
+export const REQUEST_LAYOUTS: Record<number, FrameLayout> = {
+  ...Object.fromEntries(Object.values(COMMAND_REGISTRY).map(d => [d.cmd, d.request])),
+  ...Object.fromEntries(Object.entries(UPDATE_LAYOUTS).map(([cmd, l]) => [cmd, l.request]))
+};
+
+export const RESPONSE_LAYOUTS: Record<number, FrameLayout> = {
+  ...Object.fromEntries(Object.values(COMMAND_REGISTRY).filter(d => d.response).map(d => [d.cmd, d.response!])),
+  ...Object.fromEntries(Object.entries(UPDATE_LAYOUTS).map(([cmd, l]) => [cmd, l.response]))
+};
+
+export const commandLabel = (type: CommandType, short = false): string => {
+  if (type === 'CUSTOM') return short ? 'Custom' : '自訂指令 (Custom)';
+  return short ? COMMAND_REGISTRY[type].shortLabel : COMMAND_REGISTRY[type].label;
+};
+
+export const isInventoryCommand = (type: CommandType): boolean => type !== 'CUSTOM' && !!COMMAND_REGISTRY[type].inventory;
+
+export const resultPreview = (type: CommandType): ResultPreview | undefined => type === 'CUSTOM' ? undefined : COMMAND_REGISTRY[type].preview;
@@ -0,0 +1,89 @@
+
+import { CustomCommand, ERROR_CODES } from '../types';
+import { hexToUint8Array, uint8ArrayToHex } from './protocol';
+import { MAX_FRAME_DATA_LEN } from './decoder';
+import { CommandDefinition } from './commands';
+
+// Payload 上限：LEN 扣除 CMD、ID 與 CRC
+export const MAX_CUSTOM_PAYLOAD = MAX_FRAME_DATA_LEN - 3;
+
+export const DEFAULT_SUCCESS_CODES = ['0001', '0000'];
+
+export const createCustomCommand = (): CustomCommand => ({
+  id: Date.now().toString(36), name: '', cmd: 0x35, payload: '', errorOffset: -3, successCodes: [...DEFAULT_SUCCESS_CODES]
+});
+
+export const formatCmdByte = (cmd: number): string => cmd.toString(16).toUpperCase().padStart(2, '0');
+
+export const customCommandLabel = (command: CustomCommand): string => `${command.name || '未命名'} (${formatCmdByte(command.cmd)}H)`;
+
+/**
+ * 整理十六進制輸入 (允許空白、逗號與 0x 前綴)，格式錯誤時回傳 null
+ */
+export const normalizeHex = (text: string): string | null => {
+  const hex = text.replace(/0x/gi, '').replace(/[\s,]/g, '').toUpperCase();
+  if (!/^[0-9A-F]*$/.test(hex) || hex.length % 2 !== 0) return null;
+  return hex.match(/.{2}/g)?.join(' ') || '';
+};
+
+/**
+ * 解析成功錯誤碼清單 (逗號或空白分隔)，只保留 4 位十六進制
+ */
+export const parseSuccessCodes = (text: string): string[] =>
+  Array.from(new Set(text.split(/[,\s]+/).map(v => v.replace(/^0x/i, '').toUpperCase()).filter(v => /^[0-9A-F]{4}$/.test(v))));
+
+/**
+ * 取出響應中指定位置的 2 Bytes 錯誤碼，超出封包範圍時回傳 null
+ */
+export const readErrorCode = (packet: Uint8Array, offset: number): string | null => {
+  const start = offset < 0 ? packet.length + offset : offset;
+  if (start < 0 || start + 2 > packet.length) return null;
+  return uint8ArrayToHex(packet.slice(start, start + 2)).replace(/\s/g, '');
+};
+
+export interface CustomVerdict {
+  errorCode: string; // 取不到時為 'N/A'
+  success: boolean;
+  message: string;
+}
+
+/**
+ * 依自訂指令的成功條件判定響應封包
+ */
+export const evaluateCustomResponse = (packet: Uint8Array, command: CustomCommand): CustomVerdict => {
+  const code = readErrorCode(packet, command.errorOffset);
+  if (command.successCodes.length === 0) return { errorCode: code ?? 'N/A', success: true, message: '收到響應' };
+  if (code === null) return { errorCode: 'N/A', success: false, message: `錯誤碼位置 ${command.errorOffset} 超出響應長度 (${packet.length} Bytes)` };
+  const success = command.successCodes.includes(code);
+  return { errorCode: code, success, message: ERROR_CODES[code] || (success ? '符合成功條件' : '未定義的錯誤碼') };
+};
+
+/**
+ * 將自訂指令轉為指令定義，與內建指令共用執行流程；以 CMD 相符的第一個響應判定
+ */
+export const customCommandDefinition = (command: CustomCommand): CommandDefinition => ({
+  type: 'CUSTOM', cmd: command.cmd, label: `自訂: ${customCommandLabel(command)}`, shortLabel: command.name || formatCmdByte(command.cmd), accent: 'indigo',
+  params: [],
+  request: { fields: [{ label: 'Payload', start: 5, end: -1, format: 'hex', encode: () => hexToUint8Array(command.payload) }] },
+  handle: (p, ctx) => {
+    const verdict = evaluateCustomResponse(hexToUint8Array(p.raw), command);
+    ctx.log(`[RX] ${command.name}: ${verdict.errorCode} ${verdict.message}`, verdict.success ? 'info' : 'error');
+    return { errorCode: verdict.errorCode, message: verdict.message };
+  },
+  isSuccess: code => command.successCodes.length === 0 || command.successCodes.includes(code)
+});
+
+/**
+ * 還原儲存的自訂指令，略過格式不符的項目
+ */
+export const parseCustomCommands = (json: string): CustomCommand[] => {
+  const raw = JSON.parse(json);
+  if (!Array.isArray(raw)) return [];
+  return raw
+    .filter(c => typeof c?.id === 'string' && Number.isInteger(c.cmd) && c.cmd >= 0 && c.cmd <= 0xFF && normalizeHex(String(c.payload ?? '')) !== null)
+    .map(c => ({
+      id: c.id, name: String(c.name || ''), cmd: c.cmd, payload: normalizeHex(String(c.payload ?? '')) as string,
+      errorOffset: Number.isInteger(c.errorOffset) ? c.errorOffset : -3,
+      successCodes: Array.isArray(c.successCodes) ? parseSuccessCodes(c.successCodes.join(',')) : [...DEFAULT_SUCCESS_CODES]
+    }));
+};
@@ -1,17 +1,118 @@
 
+import { Capture, CaptureChunk, FirmwareAuditEntry, FirmwareProgress, TestSession } from '../types';
+import { DEFAULT_CONFIG } from './profiles';
+
 export const DB_NAME = 'RFID_TESTER_DB';
+export const DB_VERSION = 5;
 export const STORE_NAME = 'results';
+export const SESSION_STORE = 'sessions';
+export const FW_PROGRESS_STORE = 'fwProgress';
+export const FW_AUDIT_STORE = 'fwAudit';
+export const CAPTURE_STORE = 'captures';
+export const CAPTURE_CHUNK_STORE = 'captureChunks';
+
+/**
+ * v1 → v2: 新增 sessions store 與 results.sessionId 索引，
+ * 既有的結果歸入一個「舊版紀錄」工作階段
+ */
+const migrateV1Results = (tx: IDBTransaction) => {
+  const results = tx.objectStore(STORE_NAME);
+  const countReq = results.count();
+  countReq.onsuccess = () => {
+    if (countReq.result === 0) return;
+    const first = results.openCursor();
+    first.onsuccess = () => {
+      const startedAt = first.result?.value?.timestamp || new Date().toISOString();
+      const legacy: TestSession = {
+        name: '舊版紀錄', note: '由 v1 資料庫轉移', startedAt, endedAt: startedAt, runMode: 'single',
+        config: DEFAULT_CONFIG, deviceId: 0, total: countReq.result, success: 0
+      };
+      const addReq = tx.objectStore(SESSION_STORE).add(legacy);
+      addReq.onsuccess = () => {
+        const sessionId = addReq.result as number;
+        let success = 0, lastTimestamp = startedAt;
+        const cursorReq = results.openCursor();
+        cursorReq.onsuccess = () => {
+          const cursor = cursorReq.result;
+          if (!cursor) {
+            tx.objectStore(SESSION_STORE).put({ ...legacy, id: sessionId, success, endedAt: lastTimestamp });
+            return;
+          }
+          if (cursor.value.status === 'Success') success++;
+          lastTimestamp = cursor.value.timestamp || lastTimestamp;
+          cursor.update({ ...cursor.value, sessionId });
+          cursor.continue();
+        };
+      };
+    };
+  };
+};
+
+/**
+ * 錄製中關閉頁面的擷取沒有 endedAt：以最後一個區塊的時間補上結束時間，
+ * 並依實際寫入的區塊重新計算數量 (尚未寫入的緩衝已遺失)
+ */
+const closeOpenCaptures = (db: IDBDatabase) => {
+  const tx = db.transaction([CAPTURE_STORE, CAPTURE_CHUNK_STORE], 'readwrite');
+  const captures = tx.objectStore(CAPTURE_STORE);
+  const chunks = tx.objectStore(CAPTURE_CHUNK_STORE).index('captureId');
+  const cursorReq = captures.openCursor();
+  cursorReq.onsuccess = () => {
+    const cursor = cursorReq.result;
+    if (!cursor) return;
+    const capture: Capture = cursor.value;
+    if (!capture.endedAt && capture.id !== undefined) {
+      const range = IDBKeyRange.only(capture.id);
+      const countReq = chunks.count(range);
+      const lastReq = chunks.openCursor(range, 'prev');
+      lastReq.onsuccess = () => {
+        const last: CaptureChunk | undefined = lastReq.result?.value;
+        const endedAt = new Date(new Date(capture.startedAt).getTime() + (last?.t ?? 0)).toISOString();
+        captures.put({ ...capture, chunkCount: countReq.result, endedAt });
+      };
+    }
+    cursor.continue();
+  };
+};
 
 export const initDB = (): Promise<IDBDatabase> => {
   return new Promise((resolve, reject) => {
-    const request = indexedDB.open(DB_NAME, 1);
-    request.onupgradeneeded = () => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = (event) => {
       const db = request.result;
+      const tx = request.transaction!;
       if (!db.objectStoreNames.contains(STORE_NAME)) {
         db.createObjectStore(STORE_NAME, { keyPath: 'id', autoIncrement: true });
       }
+      if (!db.objectStoreNames.contains(SESSION_STORE)) {
+        db.createObjectStore(SESSION_STORE, { keyPath: 'id', autoIncrement: true });
+      }
+      // v3: 韌體更新進度 (每台讀取器一筆)
+      if (!db.objectStoreNames.contains(FW_PROGRESS_STORE)) {
+        db.createObjectStore(FW_PROGRESS_STORE, { keyPath: 'deviceId' });
+      }
+      // v4: 韌體更新稽核紀錄
+      if (!db.objectStoreNames.contains(FW_AUDIT_STORE)) {
+        db.createObjectStore(FW_AUDIT_STORE, { keyPath: 'id', autoIncrement: true });
+      }
+      // v5: 原始收發擷取
+      if (!db.objectStoreNames.contains(CAPTURE_STORE)) {
+        db.createObjectStore(CAPTURE_STORE, { keyPath: 'id', autoIncrement: true });
+      }
+      if (!db.objectStoreNames.contains(CAPTURE_CHUNK_STORE)) {
+        const chunks = db.createObjectStore(CAPTURE_CHUNK_STORE, { keyPath: 'seq', autoIncrement: true });
+        chunks.createIndex('captureId', 'captureId', { unique: false });
+      }
+      const results = tx.objectStore(STORE_NAME);
+      if (!results.indexNames.contains('sessionId')) {
+        results.createIndex('sessionId', 'sessionId', { unique: false });
+      }
+      if (event.oldVersion === 1) migrateV1Results(tx);
+    };
+    request.onsuccess = () => {
+      closeOpenCaptures(request.result);
+      resolve(request.result);
     };
-    request.onsuccess = () => resolve(request.result);
     request.onerror = () => reject(request.error);
   });
 };
@@ -36,12 +137,178 @@ export const getAllResultsFromDB = async (db: IDBDatabase): Promise<any[]> => {
   });
 };
 
+export const getResultsBySession = async (db: IDBDatabase, sessionId: number): Promise<any[]> => {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, 'readonly');
+    const index = transaction.objectStore(STORE_NAME).index('sessionId');
+    const request = index.getAll(sessionId);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * 新增工作階段，回傳自動產生的 id
+ */
+export const createSession = async (db: IDBDatabase, session: TestSession): Promise<number> => {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(SESSION_STORE, 'readwrite');
+    const request = transaction.objectStore(SESSION_STORE).add(session);
+    request.onsuccess = () => resolve(request.result as number);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const updateSession = async (db: IDBDatabase, session: TestSession) => {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(SESSION_STORE, 'readwrite');
+    const request = transaction.objectStore(SESSION_STORE).put(session);
+    request.onsuccess = () => resolve(true);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const getAllSessions = async (db: IDBDatabase): Promise<TestSession[]> => {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(SESSION_STORE, 'readonly');
+    const request = transaction.objectStore(SESSION_STORE).getAll();
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * 刪除工作階段與其所有結果
+ */
+export const deleteSession = async (db: IDBDatabase, sessionId: number) => {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([SESSION_STORE, STORE_NAME], 'readwrite');
+    transaction.objectStore(SESSION_STORE).delete(sessionId);
+    const cursorReq = transaction.objectStore(STORE_NAME).index('sessionId').openKeyCursor(IDBKeyRange.only(sessionId));
+    cursorReq.onsuccess = () => {
+      const cursor = cursorReq.result;
+      if (!cursor) return;
+      transaction.objectStore(STORE_NAME).delete(cursor.primaryKey);
+      cursor.continue();
+    };
+    transaction.oncomplete = () => resolve(true);
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
 export const clearDB = async (db: IDBDatabase) => {
   return new Promise((resolve, reject) => {
-    const transaction = db.transaction(STORE_NAME, 'readwrite');
-    const store = transaction.objectStore(STORE_NAME);
-    const request = store.clear();
+    const transaction = db.transaction([STORE_NAME, SESSION_STORE], 'readwrite');
+    transaction.objectStore(STORE_NAME).clear();
+    transaction.objectStore(SESSION_STORE).clear();
+    transaction.oncomplete = () => resolve(true);
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+export const saveFirmwareProgress = async (db: IDBDatabase, progress: FirmwareProgress) => {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(FW_PROGRESS_STORE, 'readwrite');
+    const request = transaction.objectStore(FW_PROGRESS_STORE).put(progress);
+    request.onsuccess = () => resolve(true);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const getFirmwareProgress = async (db: IDBDatabase, deviceId: number): Promise<FirmwareProgress | null> => {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(FW_PROGRESS_STORE, 'readonly');
+    const request = transaction.objectStore(FW_PROGRESS_STORE).get(deviceId);
+    request.onsuccess = () => resolve(request.result || null);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const clearFirmwareProgress = async (db: IDBDatabase, deviceId: number) => {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(FW_PROGRESS_STORE, 'readwrite');
+    const request = transaction.objectStore(FW_PROGRESS_STORE).delete(deviceId);
     request.onsuccess = () => resolve(true);
     request.onerror = () => reject(request.error);
   });
 };
+
+/**
+ * 新增或更新稽核紀錄，回傳 id
+ */
+export const saveFirmwareAudit = async (db: IDBDatabase, entry: FirmwareAuditEntry): Promise<number> => {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(FW_AUDIT_STORE, 'readwrite');
+    const request = transaction.objectStore(FW_AUDIT_STORE).put(entry);
+    request.onsuccess = () => resolve(request.result as number);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const getAllFirmwareAudits = async (db: IDBDatabase): Promise<FirmwareAuditEntry[]> => {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(FW_AUDIT_STORE, 'readonly');
+    const request = transaction.objectStore(FW_AUDIT_STORE).getAll();
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const saveCapture = async (db: IDBDatabase, capture: Capture): Promise<number> => {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(CAPTURE_STORE, 'readwrite');
+    const request = transaction.objectStore(CAPTURE_STORE).put(capture);
+    request.onsuccess = () => resolve(request.result as number);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export const getAllCaptures = async (db: IDBDatabase): Promise<Capture[]> => {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(CAPTURE_STORE, 'readonly');
+    const request = transaction.objectStore(CAPTURE_STORE).getAll();
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * 以單一交易依序寫入多個區塊 (自動遞增的 seq 保留收發順序)
+ */
+export const appendCaptureChunks = async (db: IDBDatabase, chunks: CaptureChunk[]) => {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(CAPTURE_CHUNK_STORE, 'readwrite');
+    const store = transaction.objectStore(CAPTURE_CHUNK_STORE);
+    chunks.forEach(c => store.add(c));
+    transaction.oncomplete = () => resolve(true);
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
+
+export const getCaptureChunks = async (db: IDBDatabase, captureId: number): Promise<CaptureChunk[]> => {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(CAPTURE_CHUNK_STORE, 'readonly');
+    const request = transaction.objectStore(CAPTURE_CHUNK_STORE).index('captureId').getAll(captureId);
+    request.onsuccess = () => resolve(request.result.map(({ seq, ...chunk }: CaptureChunk & { seq: number }) => chunk));
+    request.onerror = () => reject(request.error);
+  });
+};
+
+/**
+ * 刪除擷取與其所有區塊
+ */
+export const deleteCapture = async (db: IDBDatabase, captureId: number) => {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction([CAPTURE_STORE, CAPTURE_CHUNK_STORE], 'readwrite');
+    transaction.objectStore(CAPTURE_STORE).delete(captureId);
+    const cursorReq = transaction.objectStore(CAPTURE_CHUNK_STORE).index('captureId').openKeyCursor(IDBKeyRange.only(captureId));
+    cursorReq.onsuccess = () => {
+      const cursor = cursorReq.result;
+      if (!cursor) return;
+      transaction.objectStore(CAPTURE_CHUNK_STORE).delete(cursor.primaryKey);
+      cursor.continue();
+    };
+    transaction.oncomplete = () => resolve(true);
+    transaction.onerror = () => reject(transaction.error);
+  });
+};
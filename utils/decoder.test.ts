@@ -0,0 +1,68 @@
+
+import { describe, it, expect } from 'vitest';
+import { calculateXOR } from './protocol';
+import { createFrameDecoder } from './decoder';
+
+// 組出 0x08 開頭的響應封包，LEN 涵蓋 CMD 至 CRC
+const response = (cmd: number, id: number, body: number[]): Uint8Array => {
+  const len = body.length + 3;
+  const packet = new Uint8Array([0x08, len >> 8, len & 0xFF, cmd, id, ...body, 0]);
+  packet[packet.length - 1] = calculateXOR(packet.slice(0, packet.length - 1));
+  return packet;
+};
+
+const concat = (...parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((n, p) => n + p.length, 0));
+  parts.reduce((at, p) => { out.set(p, at); return at + p.length; }, 0);
+  return out;
+};
+
+describe('createFrameDecoder', () => {
+  it('組合分批收到的封包，每個封包只回傳一次', () => {
+    const frame = response(0x35, 1, [0x56, 0x31, 0x00, 0x01]);
+    const decoder = createFrameDecoder();
+    expect(decoder.push(frame.slice(0, 4))).toEqual([]);
+    expect(decoder.pending()).toBe(4);
+    const frames = decoder.push(frame.slice(4));
+    expect(frames).toHaveLength(1);
+    expect(frames[0]).toMatchObject({ cmd: 0x35, id: 1, crcValid: true });
+    expect(frames[0].frameError).toBeUndefined();
+    expect(decoder.pending()).toBe(0);
+  });
+
+  it('略過封包之間的雜訊位元組', () => {
+    const decoder = createFrameDecoder();
+    const frames = decoder.push(concat(new Uint8Array([0x00, 0xFF]), response(0xF2, 2, [0x00, 0x01]), new Uint8Array([0x55]), response(0xF2, 3, [0x00, 0x01])));
+    expect(frames.map(f => f.id)).toEqual([2, 3]);
+    expect(frames.every(f => !f.frameError)).toBe(true);
+  });
+
+  it('LEN 超出範圍時回報長度錯誤並繼續解出其後的封包', () => {
+    const decoder = createFrameDecoder();
+    const oversized = new Uint8Array([0x08, 0xFF, 0xFF]);
+    const tooShort = new Uint8Array([0x08, 0x00, 0x01]);
+    const frames = decoder.push(concat(oversized, tooShort, response(0xF2, 1, [0x00, 0x01])));
+    expect(frames.map(f => f.frameError)).toEqual(['length', 'length', undefined]);
+    expect(frames[0].raw).toBe('08 FF FF');
+    expect(frames[2]).toMatchObject({ cmd: 0xF2, id: 1, crcValid: true });
+  });
+
+  it('CRC 錯誤時跳過整個封包，不把其中的 0x08 當成 SOF', () => {
+    // 資料內含 08 00 10，若只略過 SOF 會被當成 LEN 16 的封包而等待後續位元組
+    const bad = response(0x63, 1, [0x01, 0x08, 0x00, 0x10, 0x00, 0x01]);
+    bad[bad.length - 1] ^= 0xFF;
+    const good = response(0x63, 1, [0x01, 0x01, 0x01]);
+    const decoder = createFrameDecoder();
+    const frames = decoder.push(concat(bad, good));
+    expect(frames.map(f => f.frameError)).toEqual(['crc', undefined]);
+    expect(decoder.pending()).toBe(0);
+  });
+
+  it('reset 丟棄不完整的封包', () => {
+    const decoder = createFrameDecoder();
+    decoder.push(response(0x35, 1, [0x00, 0x01]).slice(0, 5));
+    decoder.reset();
+    expect(decoder.pending()).toBe(0);
+    expect(decoder.push(response(0xF2, 1, [0x00, 0x01]))).toHaveLength(1);
+  });
+});
@@ -0,0 +1,96 @@
+
+import { calculateXOR, hexToAscii, uint8ArrayToHex, DecodedPacket } from './protocol';
+import { FrameLayout, RESPONSE_LAYOUTS, fieldNumber, fieldRange } from './commands';
+
+// LEN 欄位合理範圍 (CMD + ID + CRC 至最大響應長度)
+export const MIN_FRAME_DATA_LEN = 3;
+export const MAX_FRAME_DATA_LEN = 1024;
+
+/**
+ * 依響應版面解出有 key 的欄位；只取 Reader ID 之後、CRC 之前且完整收到的欄位
+ */
+const decodeFields = (layout: FrameLayout, packet: Uint8Array): Partial<DecodedPacket> => {
+  const values: Record<string, unknown> = { ...layout.fixed };
+  layout.fields.forEach(field => {
+    const range = field.key ? fieldRange(field, packet) : null;
+    if (!field.key || !range || range[0] < 5 || range[0] > range[1] || range[1] > packet.length - 1) return;
+    const bytes = packet.slice(range[0], range[1]);
+    values[field.key] = field.format === 'uint' ? fieldNumber(bytes)
+      : field.format === 'error' ? uint8ArrayToHex(bytes).replace(/\s/g, '')
+      : field.format === 'ascii' ? hexToAscii(uint8ArrayToHex(bytes))
+      : bytes.length > 0 ? uint8ArrayToHex(bytes) : undefined;
+  });
+  return values as Partial<DecodedPacket>;
+};
+
+/**
+ * 解析單一完整的響應封包 (0x08 開頭)，並驗證 XOR CRC 與長度；
+ * 各指令的欄位位置由 RESPONSE_LAYOUTS 宣告，未登錄的指令只解出 CMD 與 ID
+ */
+export const decodePacket = (packet: Uint8Array): DecodedPacket => {
+  const cmd = packet[3];
+  const crcValid = packet.length >= 4 && calculateXOR(packet.slice(0, packet.length - 1)) === packet[packet.length - 1];
+  const layout = RESPONSE_LAYOUTS[cmd];
+
+  const decoded: DecodedPacket = {
+    cmd, id: packet[4], errorCode: 'N/A', crcValid, raw: uint8ArrayToHex(packet)
+  };
+
+  const minLength = layout?.minLength ? layout.minLength(packet) : 6;
+  if (!crcValid) decoded.frameError = 'crc';
+  else if (packet.length < minLength) decoded.frameError = 'length';
+
+  return layout ? { ...decoded, ...decodeFields(layout, packet) } : decoded;
+};
+
+export interface FrameDecoder {
+  /** 送入新收到的位元組，回傳本次完整解出的封包 (每個封包只會回傳一次，錯誤封包帶 frameError) */
+  push: (chunk: Uint8Array) => DecodedPacket[];
+  /** 丟棄尚未組成完整封包的殘留位元組 */
+  reset: () => void;
+  /** 目前暫存、尚未消化的位元組數 (大於 0 代表有不完整的封包) */
+  pending: () => number;
+}
+
+/**
+ * 串流式封包解碼器：逐批消化收到的位元組，已解出的位元組即丟棄，遇到雜訊時逐位元組重新同步
+ */
+export const createFrameDecoder = (): FrameDecoder => {
+  let buffer = new Uint8Array(0);
+  let offset = 0;
+
+  return {
+    push: (chunk: Uint8Array) => {
+      const remaining = buffer.subarray(offset);
+      const next = new Uint8Array(remaining.length + chunk.length);
+      next.set(remaining);
+      next.set(chunk, remaining.length);
+      buffer = next;
+      offset = 0;
+
+      const frames: DecodedPacket[] = [];
+      while (offset < buffer.length) {
+        if (buffer[offset] !== 0x08) { offset++; continue; }
+        if (offset + 3 > buffer.length) break;
+        const dataLen = (buffer[offset + 1] << 8) | buffer[offset + 2];
+        // LEN 超出合理範圍 (截斷或超長)：回報長度錯誤，略過此標頭後繼續尋找 SOF
+        if (dataLen < MIN_FRAME_DATA_LEN || dataLen > MAX_FRAME_DATA_LEN) {
+          const header = buffer.slice(offset, offset + 3);
+          frames.push({ cmd: 0, id: 0, errorCode: 'N/A', crcValid: false, frameError: 'length', raw: uint8ArrayToHex(header) });
+          offset += 3;
+          continue;
+        }
+        const end = offset + dataLen + 3;
+        if (end > buffer.length) break;
+        frames.push(decodePacket(buffer.slice(offset, end)));
+        // CRC 錯誤時也依 LEN 跳過整個封包，避免把封包內的 0x08 當成 SOF 而誤報錯誤
+        offset = end;
+      }
+      buffer = buffer.slice(offset);
+      offset = 0;
+      return frames;
+    },
+    reset: () => { buffer = new Uint8Array(0); offset = 0; },
+    pending: () => buffer.length - offset
+  };
+};
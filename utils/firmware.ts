@@ -0,0 +1,100 @@
+
+import { calculateCS1, calculateCS2 } from './protocol';
+
+export const FW_PAGE_SIZE = 512;
+
+// 可重送同一頁的 F1H 錯誤碼：請求 CRC 錯誤與更新資料 CheckSum 錯誤 (傳輸中損毀)
+const RETRYABLE_F1_ERRORS = ['0002', '8001', '8002', '8003'];
+
+export const isRetryableF1Error = (errorCode: string): boolean => RETRYABLE_F1_ERRORS.includes(errorCode);
+
+export const countFirmwarePages = (data: Uint8Array): number => Math.ceil(data.length / FW_PAGE_SIZE);
+
+/**
+ * 取出第 page 頁 (從 1 開始)，不足 512 Bytes 以 0x00 補齊
+ */
+export const firmwarePage = (data: Uint8Array, page: number): Uint8Array => {
+  const chunk = new Uint8Array(FW_PAGE_SIZE).fill(0x00);
+  chunk.set(data.slice((page - 1) * FW_PAGE_SIZE, page * FW_PAGE_SIZE));
+  return chunk;
+};
+
+// F1H 的頁碼欄位為 2 Bytes
+const MAX_FW_PAGES = 0xFFFF;
+// 版本字串位於檔頭前 32 Bytes，以 ".bin" 或 0x00 結尾
+const FW_HEADER_SIZE = 32;
+
+// 裝置回報更新資料 CheckSum 錯誤的錯誤碼
+export const CHECKSUM_ERRORS = ['8001', '8002', '8003'];
+
+export interface FirmwareImage {
+  size: number;
+  pages: number;
+  padding: number;   // 最後一頁補齊的 0x00 數量
+  version: string;   // 檔頭版本字串，無法辨識時為空
+  model: string;
+  cs1: number;       // 補齊至整頁後的 CheckSum 1
+  cs2: number;
+  errors: string[];  // 無法進行更新
+  warnings: string[];
+}
+
+/**
+ * 補齊至整頁，內容與實際寫入的 F1H 封包資料相同
+ */
+export const padFirmware = (data: Uint8Array): Uint8Array => {
+  const padded = new Uint8Array(countFirmwarePages(data) * FW_PAGE_SIZE).fill(0x00);
+  padded.set(data);
+  return padded;
+};
+
+export const formatChecksum = (value: number): string => value.toString(16).toUpperCase().padStart(4, '0');
+
+export const firmwareFingerprint = (data: Uint8Array): string => {
+  const padded = padFirmware(data);
+  return `${formatChecksum(calculateCS1(padded))}${formatChecksum(calculateCS2(padded))}`;
+};
+
+export const parseFirmwareVersion = (data: Uint8Array): string => {
+  const text = new TextDecoder().decode(data.slice(0, FW_HEADER_SIZE));
+  const binIndex = text.indexOf('.bin');
+  const ver = (binIndex !== -1 ? text.substring(0, binIndex) : text.split('\0')[0]).replace(/\0/g, '').trim();
+  return /^[\x20-\x7E]+$/.test(ver) ? ver : '';
+};
+
+const normalizeVersion = (version: string) => version.replace(/\0/g, '').trim().toUpperCase();
+
+/**
+ * 版本字串去掉結尾版本號後的型號，例如 "SIM-RFID-V1.00" → "SIM-RFID"
+ */
+export const firmwareModel = (version: string): string => normalizeVersion(version).replace(/[-_\s]*V?\d+(\.\d+)*[A-Z]?$/, '');
+
+export const sameFirmwareVersion = (a: string, b: string): boolean => normalizeVersion(a) === normalizeVersion(b);
+
+/**
+ * 檢查 .bin 檔；deviceVersion 為讀取器目前回報的 35H 版本，用於比對型號
+ */
+export const inspectFirmware = (data: Uint8Array, deviceVersion = ''): FirmwareImage => {
+  const pages = countFirmwarePages(data);
+  const padded = padFirmware(data);
+  const version = parseFirmwareVersion(data);
+  const model = firmwareModel(version);
+  const errors: string[] = [], warnings: string[] = [];
+
+  if (data.length === 0) errors.push('檔案為空');
+  if (pages > MAX_FW_PAGES) errors.push(`共 ${pages} 頁，超過 F1H 頁碼上限 ${MAX_FW_PAGES}`);
+  if (!version) warnings.push('檔頭找不到版本字串，更新後無法以 35H 確認版本');
+  if (version && deviceVersion && model !== firmwareModel(deviceVersion)) {
+    warnings.push(`檔案型號 ${model} 與讀取器 ${firmwareModel(deviceVersion)} 不符`);
+  }
+
+  return {
+    size: data.length, pages, padding: padded.length - data.length, version, model,
+    cs1: calculateCS1(padded), cs2: calculateCS2(padded), errors, warnings
+  };
+};
+
+/**
+ * 指數退避：第 attempt 次重試前等待 baseMs * 2^(attempt-1)
+ */
+export const backoffDelay = (baseMs: number, attempt: number): number => baseMs * Math.pow(2, Math.max(0, attempt - 1));
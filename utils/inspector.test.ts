@@ -0,0 +1,55 @@
+
+import { describe, it, expect } from 'vitest';
+import { COMMAND_REGISTRY, COMMAND_TYPES, buildRequest } from './commands';
+import { DEFAULT_CONFIG } from './profiles';
+import { calculateXOR, uint8ArrayToHex } from './protocol';
+import { inspectHex } from './inspector';
+
+const response = (cmd: number, id: number, body: number[]): string => {
+  const len = body.length + 3;
+  const packet = new Uint8Array([0x08, len >> 8, len & 0xFF, cmd, id, ...body, 0]);
+  packet[packet.length - 1] = calculateXOR(packet.slice(0, packet.length - 1));
+  return uint8ArrayToHex(packet);
+};
+
+describe('inspectHex', () => {
+  it('以指令登錄表的名稱與版面解讀每個內建指令的請求', () => {
+    COMMAND_TYPES.forEach(type => {
+      const def = COMMAND_REGISTRY[type];
+      const { frames, junk } = inspectHex(uint8ArrayToHex(buildRequest(def, DEFAULT_CONFIG)));
+      expect(junk).toEqual([]);
+      expect(frames).toHaveLength(1);
+      expect(frames[0]).toMatchObject({ direction: 'request', cmd: def.cmd, cmdName: def.label, crcValid: true });
+      expect(frames[0].fields.find(f => f.label === 'CMD')?.tone).toBeUndefined();
+      expect(frames[0].fields.map(f => f.label)).toEqual(['SOF', 'LEN', 'CMD', 'Reader ID', ...def.request.fields.map(f => f.label), 'CRC']);
+    });
+  });
+
+  it('解讀響應欄位與錯誤碼說明', () => {
+    const { frames } = inspectHex(response(0x35, 1, [0x56, 0x31, 0x00, 0x01]));
+    const fields = Object.fromEntries(frames[0].fields.map(f => [f.label, f]));
+    expect(fields['FW Version'].meaning).toBe('"V1"');
+    expect(fields['Error Code']).toMatchObject({ hex: '00 01', tone: 'ok' });
+    expect(fields['CRC'].tone).toBe('ok');
+  });
+
+  it('未登錄的 CMD 標示為未知指令', () => {
+    const { frames } = inspectHex(response(0x99, 1, [0x01]));
+    expect(frames[0].cmdName).toBe('未知指令 99');
+    expect(frames[0].fields.find(f => f.label === 'CMD')?.tone).toBe('error');
+  });
+
+  it('CRC 錯誤的封包依 LEN 整個略過，不重複列為雜訊或拆出假封包', () => {
+    const bad = response(0x63, 1, [0x01, 0x08, 0x00, 0x03, 0x00, 0x01]).replace(/..$/, '00');
+    const { frames, junk } = inspectHex(`AA ${bad} ${response(0xF2, 1, [0x00, 0x01])}`);
+    expect(frames.map(f => [f.cmd, f.crcValid])).toEqual([[0x63, false], [0xF2, true]]);
+    expect(junk).toEqual([{ offset: 0, hex: 'AA' }]);
+  });
+
+  it('不完整的封包取到輸入結尾', () => {
+    const { frames, junk } = inspectHex(response(0x35, 1, [0x56, 0x31, 0x00, 0x01]).slice(0, 14));
+    expect(frames).toHaveLength(1);
+    expect(frames[0].truncated).toBe(true);
+    expect(junk).toEqual([]);
+  });
+});
@@ -0,0 +1,143 @@
+
+import { ERROR_CODES } from '../types';
+import { calculateXOR, hexToAscii, hexToUint8Array, uint8ArrayToHex } from './protocol';
+import { MIN_FRAME_DATA_LEN, MAX_FRAME_DATA_LEN } from './decoder';
+import { COMMAND_NAMES, FieldFormat, FrameLayout, REQUEST_LAYOUTS, RESPONSE_LAYOUTS, fieldNumber, fieldRange } from './commands';
+
+export type FieldTone = 'ok' | 'error' | 'info';
+
+export interface FrameField {
+  start: number;   // 封包內的位元組範圍 [start, end)
+  end: number;
+  label: string;
+  hex: string;
+  meaning?: string;
+  tone?: FieldTone;
+}
+
+export interface InspectedFrame {
+  offset: number;  // 在輸入中的起始位置
+  direction: 'request' | 'response';
+  cmd: number;
+  cmdName: string;
+  hex: string;
+  crcValid: boolean;
+  truncated: boolean;
+  fields: FrameField[];
+}
+
+export interface InspectResult {
+  frames: InspectedFrame[];
+  junk: { offset: number; hex: string }[]; // 無法對齊 SOF 的位元組
+}
+
+/**
+ * 依位元組範圍建立欄位；超出封包長度的範圍會被截斷，完全超出時略過
+ */
+const fieldsBuilder = (packet: Uint8Array) => {
+  const fields: FrameField[] = [];
+  const add = (start: number, end: number, label: string, meaning?: (bytes: Uint8Array) => string | undefined, tone?: FieldTone) => {
+    const clipped = Math.min(end, packet.length);
+    if (start >= clipped) return;
+    const bytes = packet.slice(start, clipped);
+    fields.push({ start, end: clipped, label, hex: uint8ArrayToHex(bytes), meaning: meaning?.(bytes), tone });
+  };
+  return { fields, add };
+};
+
+const errorMeaning = (bytes: Uint8Array) => {
+  const code = uint8ArrayToHex(bytes).replace(/\s/g, '');
+  return ERROR_CODES[code] || '未定義的錯誤碼';
+};
+const errorTone = (bytes: Uint8Array): FieldTone | undefined => {
+  if (bytes.length < 2) return undefined;
+  const code = uint8ArrayToHex(bytes).replace(/\s/g, '');
+  return code === '0001' || code === '0000' ? 'ok' : 'error';
+};
+const ascii = (bytes: Uint8Array) => `"${hexToAscii(uint8ArrayToHex(bytes)).replace(/[^\x20-\x7E]/g, '.')}"`;
+const sized = (bytes: Uint8Array) => `${bytes.length} Bytes · ${ascii(bytes)}`;
+
+// 版面未指定說明時依欄位型態顯示
+const DEFAULT_MEANINGS: Record<FieldFormat, (bytes: Uint8Array) => string> = {
+  uint: bytes => String(fieldNumber(bytes)),
+  hex: sized,
+  ascii,
+  error: errorMeaning
+};
+
+/**
+ * 依指令登錄表的請求/響應版面拆解 Reader ID 之後、CRC 之前的欄位；
+ * 未登錄的指令 (例如自訂指令) 不拆解
+ */
+const layoutFields = (packet: Uint8Array, layout: FrameLayout | undefined, add: ReturnType<typeof fieldsBuilder>['add']) => {
+  if (!layout) {
+    add(5, packet.length - 1, packet[0] === 0x80 ? 'Payload' : 'Data', sized);
+    return;
+  }
+  layout.fields.forEach(field => {
+    const range = fieldRange(field, packet);
+    if (!range) return;
+    const [start, end] = [range[0], Math.min(range[1], packet.length - 1)];
+    const bytes = packet.slice(start, end);
+    const tone = field.format === 'error' ? errorTone(bytes) : field.valid && !field.valid(bytes, packet) ? 'error' : undefined;
+    add(start, end, field.label, b => field.meaning ? field.meaning(b, packet) : DEFAULT_MEANINGS[field.format](b), tone);
+  });
+};
+
+const inspectFrame = (packet: Uint8Array, offset: number, truncated: boolean): InspectedFrame => {
+  const direction = packet[0] === 0x80 ? 'request' : 'response';
+  const { fields, add } = fieldsBuilder(packet);
+  const dataLen = (packet[1] << 8) | packet[2];
+  const crcValid = !truncated && calculateXOR(packet.slice(0, packet.length - 1)) === packet[packet.length - 1];
+
+  add(0, 1, 'SOF', () => direction === 'request' ? '請求 (主機 → 讀取器)' : '響應 (讀取器 → 主機)');
+  add(1, 3, 'LEN', () => truncated ? `${dataLen} Bytes (僅收到 ${packet.length - 3})` : `${dataLen} Bytes (CMD ~ CRC)`, truncated ? 'error' : undefined);
+  add(3, 4, 'CMD', () => COMMAND_NAMES[packet[3]] || '未知指令', COMMAND_NAMES[packet[3]] ? undefined : 'error');
+  add(4, 5, 'Reader ID', b => `站號 ${b[0]}`);
+  if (!truncated) {
+    layoutFields(packet, (direction === 'request' ? REQUEST_LAYOUTS : RESPONSE_LAYOUTS)[packet[3]], add);
+    const expected = calculateXOR(packet.slice(0, packet.length - 1));
+    add(packet.length - 1, packet.length, 'CRC', () => crcValid ? '正確' : `錯誤 (應為 ${expected.toString(16).toUpperCase().padStart(2, '0')})`, crcValid ? 'ok' : 'error');
+  }
+
+  return {
+    offset, direction, cmd: packet[3], cmdName: COMMAND_NAMES[packet[3]] || `未知指令 ${uint8ArrayToHex(packet.slice(3, 4))}`,
+    hex: uint8ArrayToHex(packet), crcValid, truncated, fields: fields.sort((a, b) => a.start - b.start)
+  };
+};
+
+/**
+ * 將任意十六進制字串切成請求 (0x80) 與響應 (0x08) 封包並逐欄解讀；
+ * 切割規則與 createFrameDecoder 相同 (依 LEN 取完整封包，無法對齊時逐位元組重新同步)
+ */
+export const inspectHex = (text: string): InspectResult => {
+  const cleaned = text.replace(/0x/gi, '').replace(/[^0-9a-fA-F]/g, '');
+  const bytes = hexToUint8Array(cleaned.length % 2 === 0 ? cleaned : cleaned.slice(0, -1));
+  const frames: InspectedFrame[] = [];
+  const junk: InspectResult['junk'] = [];
+  let junkStart = -1;
+
+  const flushJunk = (end: number) => {
+    if (junkStart === -1) return;
+    junk.push({ offset: junkStart, hex: uint8ArrayToHex(bytes.slice(junkStart, end)) });
+    junkStart = -1;
+  };
+
+  let i = 0;
+  while (i < bytes.length) {
+    const sof = bytes[i] === 0x80 || bytes[i] === 0x08;
+    const dataLen = i + 3 <= bytes.length ? (bytes[i + 1] << 8) | bytes[i + 2] : -1;
+    if (sof && dataLen >= MIN_FRAME_DATA_LEN && dataLen <= MAX_FRAME_DATA_LEN) {
+      flushJunk(i);
+      const end = i + dataLen + 3;
+      frames.push(inspectFrame(bytes.slice(i, Math.min(end, bytes.length)), i, end > bytes.length));
+      // 與 createFrameDecoder 相同：CRC 錯誤時也依 LEN 跳過整個封包，不完整的封包則取到輸入結尾
+      i = Math.min(end, bytes.length);
+      continue;
+    }
+    if (junkStart === -1) junkStart = i;
+    i++;
+  }
+  flushJunk(bytes.length);
+  return { frames, junk };
+};
@@ -0,0 +1,37 @@
+
+import { InventoryGrade } from '../types';
+
+export interface InventoryCheck {
+  grade: InventoryGrade;
+  missing: string[];
+  unexpected: string[];
+}
+
+export const normalizeEpc = (epc: string): string => epc.replace(/\s/g, '').toUpperCase();
+
+/**
+ * 解析輸入或匯入的 EPC 清單：以換行、逗號或分號分隔，欄位內的空白會被移除；
+ * 以 "EPC," 標題列開頭的 CSV (例如標籤統計匯出) 只取第一欄
+ */
+export const parseEpcList = (text: string): string[] => {
+  const lines = text.split(/\r?\n/);
+  const isCsv = /^\s*"?EPC"?\s*,/i.test(lines[0] || '');
+  const fields = isCsv ? lines.slice(1).map(line => line.split(',')[0]) : lines.flatMap(line => line.split(/[,;]/));
+  const epcs = fields
+    .map(v => normalizeEpc(v.replace(/"/g, '')))
+    .filter(v => v.length > 0 && v.length % 2 === 0 && /^[0-9A-F]+$/.test(v));
+  return Array.from(new Set(epcs));
+};
+
+/**
+ * 比對盤點結果與預期標籤組；缺少標籤優先於非預期標籤。
+ * 61H 每次只回應一張標籤，因此只檢查是否為非預期標籤
+ */
+export const gradeInventory = (found: string[], expected: string[], singleTag = false): InventoryCheck => {
+  const foundSet = new Set(found.map(normalizeEpc));
+  const expectedSet = new Set(expected.map(normalizeEpc));
+  const missing = singleTag ? [] : Array.from(expectedSet).filter(e => !foundSet.has(e));
+  const unexpected = Array.from(foundSet).filter(e => !expectedSet.has(e));
+  const grade: InventoryGrade = missing.length > 0 ? 'missing' : unexpected.length > 0 ? 'unexpected' : 'complete';
+  return { grade, missing, unexpected };
+};
@@ -0,0 +1,60 @@
+
+import { describe, it, expect } from 'vitest';
+import { DEFAULT_PLAN, meetsExpectation, parsePlan, resolveStepConfig, serializePlan } from './plan';
+import { DEFAULT_CONFIG } from './profiles';
+
+const planJson = (steps: unknown[], extra: Record<string, unknown> = {}) => JSON.stringify({ version: 1, name: '測試', steps, ...extra });
+
+describe('parsePlan', () => {
+  it('匯出後可原樣匯入', () => {
+    expect(parsePlan(serializePlan(DEFAULT_PLAN))).toEqual(DEFAULT_PLAN);
+  });
+
+  it('只保留指令可用的參數，十六進制轉為大寫並補齊預設值', () => {
+    const plan = parsePlan(planJson([
+      { commandType: '63H', params: { userAddr: '00ff', userLen: 2, power: 20 }, delayMs: -5, expect: 'maybe' }
+    ], { name: '' }));
+    expect(plan).toEqual({
+      name: '未命名計畫',
+      steps: [{ name: '', commandType: '63H', params: { userAddr: '00FF', userLen: 2 }, delayMs: 0, expect: 'success' }]
+    });
+  });
+
+  it.each([
+    ['{', '檔案不是有效的 JSON'],
+    [JSON.stringify({ version: 99, steps: [{ commandType: '64H' }] }), '不支援的計畫版本: 99'],
+    [planJson([]), '計畫中沒有任何步驟'],
+    [planJson([{ commandType: '99H' }]), '步驟 1: 未知的指令 99H'],
+    [planJson([{ commandType: '64H', params: { power: '20' } }]), '步驟 1: 功率 (dbm) 必須為數字'],
+    [planJson([{ commandType: '63H', params: { userAddr: 'XYZ' } }]), '步驟 1: 起始位址 (Hex) 必須為十六進制字串'],
+    [planJson([{ commandType: '63H', params: { userAddr: '00000' } }]), '步驟 1: 起始位址 (Hex) 超過 4 位']
+  ])('拒絕格式錯誤的計畫 %#', (text, message) => {
+    expect(() => parsePlan(text)).toThrow(message);
+  });
+
+  it('70H 只接受可寫入的記憶體區，不接受物件原型上的名稱', () => {
+    expect(parsePlan(planJson([{ commandType: '70H', params: { writeBank: 'user' } }])).steps[0].params.writeBank).toBe('user');
+    expect(() => parsePlan(planJson([{ commandType: '70H', params: { writeBank: 'tid' } }]))).toThrow('記憶體區不支援 tid');
+    expect(() => parsePlan(planJson([{ commandType: '70H', params: { writeBank: 'toString' } }]))).toThrow('記憶體區不支援 toString');
+  });
+
+  it('目標 EPC 需為偶數位且不超過 12 Byte', () => {
+    expect(parsePlan(planJson([{ commandType: '70H', params: { targetEpc: 'e200' } }])).steps[0].params.targetEpc).toBe('E200');
+    expect(() => parsePlan(planJson([{ commandType: '70H', params: { targetEpc: 'E20' } }]))).toThrow('需為偶數位十六進制');
+    expect(() => parsePlan(planJson([{ commandType: '70H', params: { targetEpc: 'E2'.repeat(13) } }]))).toThrow('超過 24 位');
+  });
+});
+
+describe('resolveStepConfig / meetsExpectation', () => {
+  it('步驟參數覆寫全域設定', () => {
+    const cfg = resolveStepConfig({ ...DEFAULT_CONFIG, power: 33, channel: 1 }, { name: '', commandType: '61H', params: { channel: 2 }, delayMs: 0, expect: 'success' });
+    expect(cfg).toMatchObject({ commandType: '61H', channel: 2, power: 33 });
+  });
+
+  it('依預期判定結果', () => {
+    expect(meetsExpectation('Success', 'success')).toBe(true);
+    expect(meetsExpectation('Timeout', 'failure')).toBe(false);
+    expect(meetsExpectation('Failure', 'failure')).toBe(true);
+    expect(meetsExpectation('CrcError', 'any')).toBe(true);
+  });
+});
@@ -0,0 +1,88 @@
+
+import { BuiltinCommandType, MEMORY_BANK_LABELS, StepExpectation, StepParams, TestConfig, TestPlan, TestStatus, TestStep } from '../types';
+import { COMMAND_REGISTRY, COMMAND_TYPES } from './commands';
+
+export const PLAN_FILE_VERSION = 1;
+
+export const EXPECTATION_LABELS: Record<StepExpectation, string> = {
+  success: '預期成功',
+  failure: '預期失敗',
+  any: '不判定'
+};
+
+export const createStep = (commandType: BuiltinCommandType = '64H'): TestStep => ({
+  name: '', commandType, params: {}, delayMs: 0, expect: 'success'
+});
+
+export const DEFAULT_PLAN: TestPlan = {
+  name: '標準驗收流程',
+  steps: [
+    { ...createStep('35H'), name: '讀取版本' },
+    { ...createStep('64H'), name: '盤點標籤' },
+    { ...createStep('70H'), name: '寫入 EPC', delayMs: 100 },
+    { ...createStep('63H'), name: '讀回 User Memory', delayMs: 100 }
+  ]
+};
+
+/**
+ * 合併全域設定與步驟參數，得到實際執行用的設定
+ */
+export const resolveStepConfig = (config: TestConfig, step: TestStep): TestConfig => ({
+  ...config, ...step.params, commandType: step.commandType
+});
+
+/**
+ * 判定單一步驟結果是否符合預期
+ */
+export const meetsExpectation = (status: TestStatus, expect: StepExpectation): boolean => {
+  if (expect === 'any') return true;
+  if (expect === 'failure') return status === 'Failure';
+  return status === 'Success';
+};
+
+export const serializePlan = (plan: TestPlan): string => {
+  return JSON.stringify({ version: PLAN_FILE_VERSION, ...plan }, null, 2);
+};
+
+/**
+ * 解析並驗證匯入的測試計畫 JSON，格式錯誤時拋出說明錯誤
+ */
+export const parsePlan = (text: string): TestPlan => {
+  let data: any;
+  try { data = JSON.parse(text); } catch (e) { throw new Error('檔案不是有效的 JSON'); }
+  if (!data || typeof data !== 'object') throw new Error('計畫格式錯誤');
+  if (data.version !== undefined && data.version > PLAN_FILE_VERSION) throw new Error(`不支援的計畫版本: ${data.version}`);
+  if (!Array.isArray(data.steps) || data.steps.length === 0) throw new Error('計畫中沒有任何步驟');
+
+  const steps: TestStep[] = data.steps.map((raw: any, idx: number) => {
+    if (!COMMAND_TYPES.includes(raw?.commandType)) throw new Error(`步驟 ${idx + 1}: 未知的指令 ${raw?.commandType}`);
+    const commandType: BuiltinCommandType = raw.commandType;
+    const params: StepParams = {};
+    COMMAND_REGISTRY[commandType].params.forEach(field => {
+      const value = raw.params?.[field.key];
+      if (value === undefined || value === null || value === '') return;
+      if (field.kind === 'number') {
+        if (typeof value !== 'number' || !isFinite(value)) throw new Error(`步驟 ${idx + 1}: ${field.label} 必須為數字`);
+        (params as any)[field.key] = value;
+      } else if (field.kind === 'bank') {
+        if (!Object.prototype.hasOwnProperty.call(MEMORY_BANK_LABELS, value) || (field.banks && !field.banks.includes(value))) throw new Error(`步驟 ${idx + 1}: ${field.label}不支援 ${value}`);
+        (params as any)[field.key] = value;
+      } else {
+        if (typeof value !== 'string' || !/^[0-9A-Fa-f]*$/.test(value)) throw new Error(`步驟 ${idx + 1}: ${field.label} 必須為十六進制字串`);
+        if (field.kind === 'epc' && value.length % 2 !== 0) throw new Error(`步驟 ${idx + 1}: ${field.label} 需為偶數位十六進制`);
+        if (field.maxLength && value.length > field.maxLength) throw new Error(`步驟 ${idx + 1}: ${field.label} 超過 ${field.maxLength} 位`);
+        (params as any)[field.key] = value.toUpperCase();
+      }
+    });
+    const expect: StepExpectation = ['success', 'failure', 'any'].includes(raw.expect) ? raw.expect : 'success';
+    return {
+      name: typeof raw.name === 'string' ? raw.name : '',
+      commandType,
+      params,
+      delayMs: Math.max(0, Number(raw.delayMs) || 0),
+      expect
+    };
+  });
+
+  return { name: typeof data.name === 'string' && data.name ? data.name : '未命名計畫', steps };
+};
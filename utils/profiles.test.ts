@@ -0,0 +1,104 @@
+
+import { describe, it, expect, vi } from 'vitest';
+import { CONFIG_SCHEMA_VERSION, DEFAULT_CONFIG, createProfile, loadProfileStore, migrateConfig, normalizeConfig, parseProfileFile, serializeProfileStore, serializeProfiles, uniqueProfileName, validateConfig } from './profiles';
+
+describe('validateConfig', () => {
+  it('預設設定沒有錯誤', () => {
+    expect(validateConfig(DEFAULT_CONFIG)).toEqual([]);
+  });
+
+  it('列出每個錯誤的欄位', () => {
+    const errors = validateConfig({ ...DEFAULT_CONFIG, commandType: '99H' as never, power: 40, baudRate: 1200, writeData: 'FF', targetEpc: 'E20' });
+    expect(errors).toHaveLength(5);
+    expect(errors[0]).toContain('指令: 不支援 "99H"');
+    expect(errors.some(e => e.startsWith('射頻功率 (dbm): 需為 0~33 的整數'))).toBe(true);
+    expect(errors).toContain('波特率: 不支援 1200 bps');
+    expect(errors).toContain('寫入資料: 長度 1 Byte 與寫入長度 6 Word 不符 (需為 12 Byte)');
+    expect(errors).toContain('目標 EPC: 需為偶數位十六進制，最多 12 Byte');
+  });
+});
+
+describe('migrateConfig / normalizeConfig', () => {
+  it('舊版設定補齊新欄位並移除 readBank', () => {
+    const migrated = migrateConfig({ commandType: '63H', power: 20, readBank: 'tid' }, 0);
+    expect(migrated).toMatchObject({ commandType: '63H', power: 20, writeBank: DEFAULT_CONFIG.writeBank });
+    expect(migrated).not.toHaveProperty('readBank');
+  });
+
+  it('拒絕比本程式新的版本', () => {
+    expect(() => migrateConfig({}, CONFIG_SCHEMA_VERSION + 1)).toThrow('比本程式新');
+  });
+
+  it('型別不符或未知的值改用預設值，並捨棄未知欄位', () => {
+    const config = normalizeConfig({ power: '20', transportType: 'usb', channels: [1, -1, 2.5, 3], expectedEpcs: ['AA', 1], extra: true });
+    expect(config).toEqual({ ...DEFAULT_CONFIG, channels: [1, 3], expectedEpcs: ['AA'] });
+  });
+});
+
+describe('loadProfileStore', () => {
+  const store = (activeId: unknown) => JSON.stringify({
+    version: CONFIG_SCHEMA_VERSION, activeId,
+    profiles: [{ id: 'a', name: 'A', config: DEFAULT_CONFIG, updatedAt: '2026-01-01T00:00:00.000Z' }, { id: 'b', name: 'B', config: { ...DEFAULT_CONFIG, power: 20 } }]
+  });
+
+  it('還原設定檔與使用中的設定檔', () => {
+    const loaded = loadProfileStore(store('b'), null);
+    expect(loaded.activeId).toBe('b');
+    expect(loaded.profiles.map(p => [p.id, p.name, p.config.power])).toEqual([['a', 'A', 33], ['b', 'B', 20]]);
+  });
+
+  it('activeId 不存在時改用第一個設定檔', () => {
+    expect(loadProfileStore(store('gone'), null).activeId).toBe('a');
+    expect(loadProfileStore(store(42), null).activeId).toBe('a');
+  });
+
+  it('可由 serializeProfileStore 的輸出還原', () => {
+    const saved = loadProfileStore(store('b'), null);
+    expect(loadProfileStore(serializeProfileStore(saved), null)).toEqual(saved);
+  });
+
+  it('沒有設定檔時移轉舊版單一設定，皆無則建立預設設定檔', () => {
+    const legacy = loadProfileStore(null, JSON.stringify({ commandType: '61H', power: 25 }));
+    expect(legacy.profiles).toHaveLength(1);
+    expect(legacy.activeId).toBe(legacy.profiles[0].id);
+    expect(legacy.profiles[0].config).toMatchObject({ commandType: '61H', power: 25 });
+    const logged = vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(loadProfileStore('not json', null).profiles[0].config).toEqual(DEFAULT_CONFIG);
+    expect(logged).toHaveBeenCalled();
+    logged.mockRestore();
+  });
+});
+
+describe('parseProfileFile', () => {
+  it('匯出後可匯入，並重新產生 id', () => {
+    const profile = createProfile('治具 3', { ...DEFAULT_CONFIG, power: 25 });
+    const [imported] = parseProfileFile(serializeProfiles([profile]), 'file');
+    expect(imported).toMatchObject({ name: '治具 3', config: profile.config, updatedAt: profile.updatedAt });
+    expect(imported.id).not.toBe(profile.id);
+  });
+
+  it('接受舊版程式的單一設定 JSON，以檔名命名', () => {
+    const [imported] = parseProfileFile(JSON.stringify({ commandType: '35H', readBank: 'user' }), '舊設定');
+    expect(imported.name).toBe('舊設定');
+    expect(imported.config).toEqual({ ...DEFAULT_CONFIG, commandType: '35H' });
+  });
+
+  it.each([
+    ['{', '檔案不是有效的 JSON'],
+    [JSON.stringify({ format: 'other' }), '不是設定檔'],
+    [JSON.stringify({ format: 'rfid-profiles', version: 2, profiles: [] }), '檔案中沒有任何設定'],
+    [JSON.stringify({ format: 'rfid-profiles', version: 'x', profiles: [{ config: {} }] }), '設定檔版本錯誤'],
+    [JSON.stringify({ format: 'rfid-profiles', version: 2, profiles: [{ name: 'P' }] }), '設定「P」: 缺少 config'],
+    [JSON.stringify({ format: 'rfid-profiles', version: 2, profiles: [{ name: 'P', config: { power: 99 } }] }), '設定「P」:\n射頻功率']
+  ])('拒絕格式錯誤的設定檔 %#', (text, message) => {
+    expect(() => parseProfileFile(text, 'file')).toThrow(message);
+  });
+});
+
+describe('uniqueProfileName', () => {
+  it('名稱重複時加上編號', () => {
+    const profiles = [createProfile('A', DEFAULT_CONFIG), createProfile('A (2)', DEFAULT_CONFIG)];
+    expect(uniqueProfileName('B', profiles)).toBe('B');
+    expect(uniqueProfileName('A', profiles)).toBe('A (3)');
+  });
+});
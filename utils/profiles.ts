@@ -0,0 +1,219 @@
+
+import { ConfigProfile, TestConfig } from '../types';
+import { COMMAND_TYPES } from './commands';
+import { SWEEP_COMMAND_TYPES } from './sweep';
+
+/**
+ * 設定檔匯出格式 (.rfidprofile.json)：
+ *   {"format":"rfid-profiles","version":2,"profiles":[{"name":"...","updatedAt":"<ISO 8601>","config":{...TestConfig}}]}
+ * localStorage (rfid_tester_profiles) 以相同版本號保存：{"version":2,"activeId":"...","profiles":[ConfigProfile]}
+ * 調整 TestConfig 結構時遞增 CONFIG_SCHEMA_VERSION，並於 CONFIG_MIGRATIONS 加入上一版的升級步驟
+ */
+export const PROFILE_FORMAT = 'rfid-profiles';
+export const CONFIG_SCHEMA_VERSION = 2;
+export const PROFILE_FILE_EXT = '.rfidprofile.json';
+
+export const MAX_READER_ID = 15;
+export const MAX_POWER_DBM = 33;
+export const BAUD_RATES = [9600, 19200, 38400, 57600, 115200];
+
+export const DEFAULT_CONFIG: TestConfig = {
+  commandType: '64H', totalCycles: 10, timeoutMs: 3000, intervalMs: 100, maxRecords: 10,
+  id: 1, channel: 0, channels: [], channelMode: 'rotate', power: 33, baudRate: 38400, transportType: 'serial', stopOnError: false,
+  userAddr: '0000', userLen: 4,
+  writeAddr: '0002', writeLen: 6, writeData: 'FFFF00000000000000000000', writeBank: 'epc', writePattern: 'fixed', targetEpc: '',
+  expectedEpcs: [],
+  sweepCommand: '64H', sweepStartPower: 15, sweepEndPower: 33, sweepStepPower: 3, sweepCyclesPerPoint: 10,
+  fwMaxRetries: 3, fwAckTimeoutMs: 3000, fwBackoffMs: 500,
+  customCommandId: ''
+};
+
+export interface ProfileStore {
+  activeId: string;
+  profiles: ConfigProfile[]; // 至少一個
+}
+
+// CONFIG_MIGRATIONS[v] 將 v 版設定升級為 v + 1 版
+const CONFIG_MIGRATIONS: Record<number, (raw: Record<string, any>) => Record<string, any>> = {
+  // 0：舊版單一設定 (rfid_tester_config) 未記錄版本，之後新增的欄位 (例如 writeAddr、writeBank) 以預設值補齊
+  0: raw => ({ ...DEFAULT_CONFIG, ...raw }),
+  // 1：63H 只能讀取 User 記憶體區，移除 readBank
+  1: ({ readBank, ...raw }) => raw
+};
+
+const ENUM_FIELDS: Partial<Record<keyof TestConfig, { label: string; values: readonly string[] }>> = {
+  commandType: { label: '指令', values: [...COMMAND_TYPES, 'CUSTOM'] },
+  transportType: { label: '連線方式', values: ['serial', 'simulator', 'replay'] },
+  channelMode: { label: '多天線模式', values: ['rotate', 'iterate'] },
+  writePattern: { label: '寫入資料樣式', values: ['fixed', 'random', 'increment'] },
+  writeBank: { label: '寫入記憶體區', values: ['reserved', 'epc', 'user'] },
+  sweepCommand: { label: '掃描指令', values: SWEEP_COMMAND_TYPES }
+};
+
+// 整數欄位的允許範圍 [min, max]
+const INT_RANGES: Partial<Record<keyof TestConfig, { label: string; min: number; max: number }>> = {
+  totalCycles: { label: '總測試次數', min: 1, max: 1000000 },
+  timeoutMs: { label: '回應逾時 (ms)', min: 1, max: 600000 },
+  intervalMs: { label: '測試間隔 (ms)', min: 0, max: 3600000 },
+  maxRecords: { label: '標籤上限', min: 0, max: 100000 },
+  id: { label: '設備站號', min: 0, max: MAX_READER_ID },
+  channel: { label: '天線', min: 0, max: 0xFF },
+  power: { label: '射頻功率 (dbm)', min: 0, max: MAX_POWER_DBM },
+  userLen: { label: '讀取長度 (Word)', min: 1, max: 0xFF },
+  writeLen: { label: '寫入長度 (Word)', min: 1, max: 6 },
+  sweepStartPower: { label: '起始功率 (dbm)', min: 0, max: MAX_POWER_DBM },
+  sweepEndPower: { label: '結束功率 (dbm)', min: 0, max: MAX_POWER_DBM },
+  sweepStepPower: { label: '功率間距 (dbm)', min: 1, max: MAX_POWER_DBM },
+  sweepCyclesPerPoint: { label: '每點次數', min: 1, max: 100000 },
+  fwMaxRetries: { label: '韌體重試次數', min: 0, max: 20 },
+  fwAckTimeoutMs: { label: '韌體回應逾時 (ms)', min: 100, max: 60000 },
+  fwBackoffMs: { label: '韌體退避 (ms)', min: 0, max: 60000 }
+};
+
+const isHex = (value: unknown, maxLength = Infinity): boolean =>
+  typeof value === 'string' && /^[0-9A-Fa-f]*$/.test(value) && value.length <= maxLength;
+
+/**
+ * 檢查設定內容，回傳每個問題的說明 (空陣列代表通過)；輸入可能來自匯入檔，不假設欄位型別正確
+ */
+export const validateConfig = (config: TestConfig): string[] => {
+  const c = config as Record<string, any>;
+  const errors: string[] = [];
+
+  (Object.keys(ENUM_FIELDS) as (keyof TestConfig)[]).forEach(key => {
+    const { label, values } = ENUM_FIELDS[key]!;
+    if (!values.includes(c[key])) errors.push(`${label}: 不支援 ${JSON.stringify(c[key])} (可用值 ${values.join(' / ')})`);
+  });
+  (Object.keys(INT_RANGES) as (keyof TestConfig)[]).forEach(key => {
+    const { label, min, max } = INT_RANGES[key]!;
+    if (!Number.isInteger(c[key]) || c[key] < min || c[key] > max) errors.push(`${label}: 需為 ${min}~${max} 的整數 (目前為 ${JSON.stringify(c[key])})`);
+  });
+  if (!BAUD_RATES.includes(c.baudRate)) errors.push(`波特率: 不支援 ${JSON.stringify(c.baudRate)} bps`);
+  if (typeof c.stopOnError !== 'boolean') errors.push('異常自動中止: 需為 true 或 false');
+
+  if (!isHex(c.userAddr, 4) || !c.userAddr) errors.push('讀取起始位址: 需為 1~4 位十六進制');
+  if (!isHex(c.writeAddr, 4) || !c.writeAddr) errors.push('寫入位址: 需為 1~4 位十六進制');
+  if (!isHex(c.writeData)) errors.push('寫入資料: 需為十六進制字串');
+  else if (Number.isInteger(c.writeLen) && c.writeData.length !== c.writeLen * 4) {
+    errors.push(`寫入資料: 長度 ${c.writeData.length / 2} Byte 與寫入長度 ${c.writeLen} Word 不符 (需為 ${c.writeLen * 2} Byte)`);
+  }
+  if (!isHex(c.targetEpc, 24) || c.targetEpc.length % 2 !== 0) errors.push('目標 EPC: 需為偶數位十六進制，最多 12 Byte');
+
+  if (!Array.isArray(c.channels) || c.channels.some((v: unknown) => !Number.isInteger(v) || (v as number) < 0 || (v as number) > 0xFF)) {
+    errors.push('多天線清單: 需為 0~255 的整數');
+  }
+  if (!Array.isArray(c.expectedEpcs) || c.expectedEpcs.some((v: unknown) => !isHex(String(v).replace(/\s/g, '')) || String(v).replace(/\s/g, '').length % 2 !== 0)) {
+    errors.push('預期標籤組: EPC 需為偶數位十六進制');
+  }
+  if (c.commandType === 'CUSTOM' && (typeof c.customCommandId !== 'string' || !c.customCommandId)) errors.push('自訂指令: 未選擇要執行的自訂指令');
+  return errors;
+};
+
+/**
+ * 依序套用升級步驟，將 fromVersion 版的設定轉為目前版本 (尚未驗證)
+ */
+export const migrateConfig = (raw: Record<string, any>, fromVersion: number): Record<string, any> => {
+  if (fromVersion > CONFIG_SCHEMA_VERSION) throw new Error(`設定版本 ${fromVersion} 比本程式新，請更新測試工具`);
+  let next = raw;
+  for (let v = fromVersion; v < CONFIG_SCHEMA_VERSION; v++) next = CONFIG_MIGRATIONS[v](next);
+  return next;
+};
+
+/**
+ * 以預設值補齊缺少或型別不符的欄位，並捨棄未知欄位，確保程式可安全使用
+ */
+export const normalizeConfig = (raw: Record<string, any>): TestConfig => {
+  const config = { ...DEFAULT_CONFIG } as Record<string, any>;
+  (Object.keys(DEFAULT_CONFIG) as (keyof TestConfig)[]).forEach(key => {
+    const value = raw?.[key];
+    if (key === 'channels') { if (Array.isArray(value)) config[key] = value.filter(v => Number.isInteger(v) && v >= 0 && v <= 0xFF); return; }
+    if (key === 'expectedEpcs') { if (Array.isArray(value)) config[key] = value.filter(v => typeof v === 'string'); return; }
+    if (typeof value !== typeof DEFAULT_CONFIG[key]) return;
+    if (ENUM_FIELDS[key] && !ENUM_FIELDS[key]!.values.includes(value)) return;
+    if (typeof value === 'number' && !isFinite(value)) return;
+    config[key] = value;
+  });
+  return config as TestConfig;
+};
+
+export const createProfile = (name: string, config: TestConfig): ConfigProfile => ({
+  id: `${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`, name, config, updatedAt: new Date().toISOString()
+});
+
+/**
+ * 名稱重複時加上編號，例如「3 號治具 (2)」
+ */
+export const uniqueProfileName = (name: string, profiles: ConfigProfile[]): string => {
+  const taken = new Set(profiles.map(p => p.name));
+  if (!taken.has(name)) return name;
+  let n = 2;
+  while (taken.has(`${name} (${n})`)) n++;
+  return `${name} (${n})`;
+};
+
+export const activeProfile = (store: ProfileStore): ConfigProfile =>
+  store.profiles.find(p => p.id === store.activeId) || store.profiles[0];
+
+/**
+ * 還原儲存的設定檔；沒有設定檔時移轉舊版單一設定 (legacyConfig)，兩者皆無則建立預設設定檔
+ */
+export const loadProfileStore = (saved: string | null, legacyConfig: string | null): ProfileStore => {
+  if (saved) {
+    try {
+      const data = JSON.parse(saved);
+      const version = Number.isInteger(data?.version) ? data.version : 0;
+      const profiles: ConfigProfile[] = (Array.isArray(data?.profiles) ? data.profiles : [])
+        .filter((p: any) => typeof p?.id === 'string' && p.config && typeof p.config === 'object')
+        .map((p: any) => ({
+          id: p.id, name: String(p.name || '未命名設定'),
+          // 較新版本程式存下的設定無法降級，只保留本版認得的欄位，避免整組設定檔被預設值覆蓋
+          config: normalizeConfig(version > CONFIG_SCHEMA_VERSION ? p.config : migrateConfig(p.config, version)),
+          updatedAt: String(p.updatedAt || new Date().toISOString())
+        }));
+      // activeId 指向已不存在的設定檔時改用第一個，儲存與刪除才會作用在畫面上顯示的設定檔
+      if (profiles.length > 0) return { activeId: profiles.some(p => p.id === data.activeId) ? data.activeId : profiles[0].id, profiles };
+    } catch (e) { console.error("Parse profiles error", e); }
+  }
+  let config = DEFAULT_CONFIG;
+  if (legacyConfig) {
+    try { config = normalizeConfig(migrateConfig(JSON.parse(legacyConfig), 0)); } catch (e) { console.error("Parse config error", e); }
+  }
+  const profile = createProfile('預設設定', config);
+  return { activeId: profile.id, profiles: [profile] };
+};
+
+export const serializeProfileStore = (store: ProfileStore): string =>
+  JSON.stringify({ version: CONFIG_SCHEMA_VERSION, ...store });
+
+export const serializeProfiles = (profiles: ConfigProfile[]): string =>
+  JSON.stringify({
+    format: PROFILE_FORMAT, version: CONFIG_SCHEMA_VERSION,
+    profiles: profiles.map(p => ({ name: p.name, updatedAt: p.updatedAt, config: p.config }))
+  }, null, 2);
+
+/**
+ * 解析匯入的設定檔，升級舊版並逐一驗證，任何設定有誤即拋出含設定名稱的錯誤
+ * 也接受舊版程式的單一設定 JSON (rfid_tester_config 內容)，以 fallbackName 命名
+ */
+export const parseProfileFile = (text: string, fallbackName: string): ConfigProfile[] => {
+  let data: any;
+  try { data = JSON.parse(text); } catch (e) { throw new Error('檔案不是有效的 JSON'); }
+  if (!data || typeof data !== 'object') throw new Error('設定檔格式錯誤');
+
+  const entries: { name: string; updatedAt?: string; config: any }[] = data.format === PROFILE_FORMAT
+    ? (Array.isArray(data.profiles) ? data.profiles : [])
+    : typeof data.commandType === 'string' ? [{ name: fallbackName, config: data }] : [];
+  if (data.format !== PROFILE_FORMAT && entries.length === 0) throw new Error('不是設定檔 (format 欄位不符)');
+  if (entries.length === 0) throw new Error('檔案中沒有任何設定');
+  const version = data.format === PROFILE_FORMAT ? data.version : 0;
+  if (!Number.isInteger(version)) throw new Error(`設定檔版本錯誤: ${data.version}`);
+
+  return entries.map((entry, idx) => {
+    const name = typeof entry?.name === 'string' && entry.name.trim() ? entry.name.trim() : `${fallbackName} ${idx + 1}`;
+    if (!entry?.config || typeof entry.config !== 'object') throw new Error(`設定「${name}」: 缺少 config`);
+    const config = { ...DEFAULT_CONFIG, ...migrateConfig(entry.config, version) };
+    const errors = validateConfig(config);
+    if (errors.length > 0) throw new Error(`設定「${name}」:\n${errors.join('\n')}`);
+    return { ...createProfile(name, normalizeConfig(config)), updatedAt: String(entry.updatedAt || new Date().toISOString()) };
+  });
+};
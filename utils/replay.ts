@@ -0,0 +1,91 @@
+
+import { CaptureChunk } from '../types';
+import { hexToUint8Array, uint8ArrayToHex } from './protocol';
+import { Transport } from './transport';
+
+/**
+ * reactive: 每次寫入時播放擷取中下一個 TX 之後收到的 RX (依原始間隔)，可重跑相同的測試流程
+ * stream:   開啟後依原始時間軸播放所有 RX，不理會寫入，用於重現解碼問題
+ */
+export type ReplayMode = 'reactive' | 'stream';
+
+export interface ReplayOptions {
+  mode: ReplayMode;
+  speed: number; // 時間倍率，1 為原始速度
+}
+
+/**
+ * 以擷取內容模擬讀取器的傳輸層
+ */
+export const createReplayTransport = (chunks: CaptureChunk[], options: ReplayOptions, onEnd?: () => void): Transport => {
+  let controller: ReadableStreamDefaultController<Uint8Array> | null = null;
+  let stream: ReadableStream<Uint8Array> | null = null;
+  let pos = 0, ended = false;
+  const timers = new Set<ReturnType<typeof setTimeout>>();
+  const speed = options.speed > 0 ? options.speed : 1;
+
+  const schedule = (chunk: CaptureChunk, delayMs: number) => {
+    const timer = setTimeout(() => {
+      timers.delete(timer);
+      try { controller?.enqueue(hexToUint8Array(chunk.data)); } catch (e) {}
+    }, Math.max(0, delayMs / speed));
+    timers.add(timer);
+  };
+
+  // 播放 from 起連續的 RX 區塊 (直到下一個 TX)，時間相對 originT
+  const playRxRun = (from: number, originT: number): number => {
+    let i = from;
+    for (; i < chunks.length && chunks[i].dir === 'rx'; i++) schedule(chunks[i], chunks[i].t - originT);
+    return i;
+  };
+
+  const end = () => {
+    if (ended) return;
+    ended = true;
+    onEnd?.();
+  };
+
+  const notifyEndAfterPending = () => {
+    const lastT = chunks.length > 0 ? chunks[chunks.length - 1].t - (chunks[0]?.t ?? 0) : 0;
+    const timer = setTimeout(() => { timers.delete(timer); end(); }, lastT / speed + 50);
+    timers.add(timer);
+  };
+
+  return {
+    kind: 'replay',
+    label: '擷取重播',
+    open: async () => {
+      pos = 0; ended = false;
+      stream = new ReadableStream<Uint8Array>({
+        start: c => { controller = c; },
+        cancel: () => { controller = null; }
+      });
+      if (options.mode === 'stream') {
+        const startT = chunks[0]?.t ?? 0;
+        chunks.forEach(c => { if (c.dir === 'rx') schedule(c, c.t - startT); });
+        notifyEndAfterPending();
+      } else {
+        // 擷取開頭在任何 TX 之前收到的資料 (例如主動上報) 於開啟時播放
+        pos = playRxRun(0, chunks[0]?.t ?? 0);
+      }
+    },
+    write: async (data: Uint8Array) => {
+      if (!stream) throw new Error('擷取重播未開啟');
+      if (options.mode === 'stream') return;
+      // 優先對應內容相同的下一個 TX，找不到時依序取下一個 TX
+      const hex = uint8ArrayToHex(data);
+      let txIdx = chunks.findIndex((c, i) => i >= pos && c.dir === 'tx' && c.data === hex);
+      if (txIdx === -1) txIdx = chunks.findIndex((c, i) => i >= pos && c.dir === 'tx');
+      if (txIdx === -1) { end(); return; }
+      pos = playRxRun(txIdx + 1, chunks[txIdx].t);
+    },
+    readable: () => stream,
+    close: async () => {
+      timers.forEach(t => clearTimeout(t));
+      timers.clear();
+      try { controller?.close(); } catch (e) {}
+      controller = null; stream = null;
+    },
+    onDisconnect: () => () => {}
+  };
+};
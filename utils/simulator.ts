@@ -0,0 +1,242 @@
+
+import { calculateXOR, hexToUint8Array } from './protocol';
+import { Transport } from './transport';
+import { parseFirmwareVersion } from './firmware';
+
+export interface SimulatedTag {
+  epc: string;  // 十六進制字串
+  user: string; // User Memory 內容 (十六進制字串)
+}
+
+export interface SimulatorOptions {
+  readerIds: number[];     // 匯流排上會回應的站號
+  fwVersion: string;
+  tags: SimulatedTag[];
+  responseDelayMs: number; // 每個回應封包的延遲
+  missRate: number;        // 每次盤點漏讀單一標籤的機率 (0~1)
+  noiseRate: number;       // 響應封包被雜訊破壞 (翻轉一個位元組) 的機率 (0~1)
+}
+
+export const DEFAULT_SIMULATOR_OPTIONS: SimulatorOptions = {
+  readerIds: [1],
+  fwVersion: 'SIM-RFID-V1.00',
+  tags: [
+    { epc: 'E20000000000000000000001', user: '53494D5553455230' },
+    { epc: 'E20000000000000000000002', user: '0000000000000000' }
+  ],
+  responseDelayMs: 30,
+  missRate: 0,
+  noiseRate: 0
+};
+
+interface TagState {
+  epc: Uint8Array;
+  user: Uint8Array;
+  reserved: Uint8Array; // Kill / Access Password
+}
+
+const OK = 0x0001;
+const ERR_CRC = 0x0002;
+const ERR_CMD = 0x0003;
+const ERR_LEN = 0x0004;
+const ERR_FAIL = 0x0101;
+
+/**
+ * 建立 0x08 開頭的響應封包，LEN 涵蓋 CMD 至 CRC
+ */
+const buildResponse = (cmd: number, id: number, body: number[]): Uint8Array => {
+  const len = body.length + 3;
+  const packet = new Uint8Array(len + 3);
+  packet[0] = 0x08;
+  packet[1] = (len >> 8) & 0xFF;
+  packet[2] = len & 0xFF;
+  packet[3] = cmd;
+  packet[4] = id & 0xFF;
+  packet.set(body, 5);
+  packet[packet.length - 1] = calculateXOR(packet.slice(0, packet.length - 1));
+  return packet;
+};
+
+const word = (value: number): number[] => [(value >> 8) & 0xFF, value & 0xFF];
+const dword = (value: number): number[] => [(value >>> 24) & 0xFF, (value >> 16) & 0xFF, (value >> 8) & 0xFF, value & 0xFF];
+
+/**
+ * 依各指令的響應格式放置錯誤碼
+ */
+const errorBody = (cmd: number, antenna: number, code: number): number[] => {
+  switch (cmd) {
+    case 0x64: return [antenna, 0x01, ...dword(0), ...word(code)];
+    case 0xF1: return [...word(0), ...word(code)];
+    case 0x35: case 0xF2: return word(code);
+    default: return [antenna, ...word(code)];
+  }
+};
+
+/**
+ * 軟體模擬讀取器：依 utils/protocol.ts 的請求格式回應正確封裝的 0x08 封包
+ */
+export const createSimulatedTransport = (options: SimulatorOptions): Transport => {
+  let controller: ReadableStreamDefaultController<Uint8Array> | null = null;
+  let stream: ReadableStream<Uint8Array> | null = null;
+  let rxBuffer = new Uint8Array(0);
+  const timers = new Set<ReturnType<typeof setTimeout>>();
+  const tags: TagState[] = options.tags.map(t => ({
+    epc: hexToUint8Array(t.epc), user: hexToUint8Array(t.user), reserved: new Uint8Array(8)
+  }));
+  const update = { active: false, pages: 0, completed: 0, imageVersion: '' };
+  // F2H 成功後改為執行新映像檔的版本
+  let runningVersion = options.fwVersion;
+
+  const emit = (frame: Uint8Array, delayMs: number) => {
+    if (Math.random() < options.noiseRate) {
+      const idx = 3 + Math.floor(Math.random() * (frame.length - 3));
+      frame[idx] ^= 0x5A;
+    }
+    const timer = setTimeout(() => {
+      timers.delete(timer);
+      try { controller?.enqueue(frame); } catch (e) {}
+    }, delayMs);
+    timers.add(timer);
+  };
+
+  const visibleTags = () => tags.filter(() => Math.random() >= options.missRate);
+
+  const findTarget = (frame: Uint8Array): TagState | undefined => {
+    const visible = visibleTags();
+    const targetLen = frame[8];
+    if (targetLen === 0xFF) return visible[0];
+    const target = frame.slice(9, 9 + Math.min(targetLen, 12));
+    return visible.find(t => t.epc.length >= target.length && target.every((b, i) => t.epc[i] === b));
+  };
+
+  const respond64H = (frame: Uint8Array, id: number, antenna: number) => {
+    const maxRecords = ((frame[12] << 24) | (frame[13] << 16) | (frame[14] << 8) | frame[15]) >>> 0;
+    const found = visibleTags().slice(0, maxRecords);
+    found.forEach((tag, idx) => {
+      const pc = (Math.ceil(tag.epc.length / 2) << 11) & 0xFFFF;
+      const rssi = 0xC0 + Math.floor(Math.random() * 0x20);
+      emit(buildResponse(0x64, id, [antenna, 0x00, ...word(pc), ...tag.epc, rssi, ...dword(idx + 1), ...word(OK)]), options.responseDelayMs * (idx + 1));
+    });
+    emit(buildResponse(0x64, id, [antenna, 0x01, ...dword(found.length), ...word(OK)]), options.responseDelayMs * (found.length + 1));
+  };
+
+  const respond61H = (id: number, antenna: number) => {
+    const tag = visibleTags()[0];
+    if (!tag) { emit(buildResponse(0x61, id, errorBody(0x61, antenna, ERR_FAIL)), options.responseDelayMs); return; }
+    const pc = (Math.ceil(tag.epc.length / 2) << 11) & 0xFFFF;
+    emit(buildResponse(0x61, id, [antenna, 0x1E, ...word(pc), ...tag.epc, ...word(OK)]), options.responseDelayMs);
+  };
+
+  const respond63H = (frame: Uint8Array, id: number, antenna: number) => {
+    const addr = (frame[6] << 8) | frame[7];
+    const lenBytes = frame[8] * 2;
+    const tag = visibleTags()[0];
+    if (!tag || (addr * 2) + lenBytes > tag.user.length) {
+      emit(buildResponse(0x63, id, errorBody(0x63, antenna, ERR_FAIL)), options.responseDelayMs);
+      return;
+    }
+    const data = Array.from(tag.user.slice(addr * 2, addr * 2 + lenBytes));
+    emit(buildResponse(0x63, id, [antenna, ...word(addr), frame[8], ...data, ...word(OK)]), options.responseDelayMs);
+  };
+
+  const respond70H = (frame: Uint8Array, id: number, antenna: number) => {
+    const addr = (frame[21] << 8) | frame[22];
+    const lenBytes = frame[23] * 2;
+    const data = frame.slice(24, frame.length - 1);
+    const tag = findTarget(frame);
+    const bankCode = frame[6];
+    // EPC 區 Word 0/1 為 CRC/PC，EPC 資料由 Word 2 開始；TID 區唯讀
+    const target = !tag ? null : bankCode === 0x01 ? tag.epc : bankCode === 0x03 ? tag.user : bankCode === 0x00 ? tag.reserved : null;
+    const offset = bankCode === 0x01 ? (addr - 2) * 2 : addr * 2;
+    let code = OK;
+    if (!target || offset < 0 || offset + lenBytes > target.length) code = ERR_FAIL;
+    else if (data.length !== lenBytes) code = ERR_LEN;
+    else target.set(data, offset);
+    emit(buildResponse(0x70, id, errorBody(0x70, antenna, code)), options.responseDelayMs);
+  };
+
+  const respond35H = (id: number) => {
+    const ascii = Array.from(new TextEncoder().encode(runningVersion));
+    emit(buildResponse(0x35, id, [...ascii, ...word(OK)]), options.responseDelayMs);
+  };
+
+  const respondUpdate = (frame: Uint8Array, cmd: number, id: number) => {
+    if (cmd === 0xF0) {
+      update.active = true; update.pages = 0;
+      emit(buildResponse(0xF0, id, dword(update.completed)), options.responseDelayMs);
+    } else if (cmd === 0xF1) {
+      const pageNum = (frame[5] << 8) | frame[6];
+      // 重送上一頁 (回應遺失後的重試) 同樣確認
+      const code = update.active && (pageNum === update.pages + 1 || (pageNum > 0 && pageNum === update.pages)) ? OK : ERR_FAIL;
+      if (code === OK) update.pages = pageNum;
+      if (code === OK && pageNum === 1) update.imageVersion = parseFirmwareVersion(frame.slice(7, 519));
+      emit(buildResponse(0xF1, id, [...word(pageNum), ...word(code)]), options.responseDelayMs);
+    } else {
+      const code = update.active && update.pages > 0 ? OK : ERR_FAIL;
+      if (code === OK) { update.completed++; runningVersion = update.imageVersion || runningVersion; }
+      update.active = false;
+      emit(buildResponse(0xF2, id, word(code)), options.responseDelayMs);
+    }
+  };
+
+  const handleRequest = (frame: Uint8Array) => {
+    const cmd = frame[3];
+    const id = frame[4];
+    if (!options.readerIds.includes(id)) return;
+    const antenna = frame[5];
+    if (calculateXOR(frame.slice(0, frame.length - 1)) !== frame[frame.length - 1]) {
+      emit(buildResponse(cmd, id, errorBody(cmd, antenna, ERR_CRC)), options.responseDelayMs);
+      return;
+    }
+    switch (cmd) {
+      case 0x64: respond64H(frame, id, antenna); break;
+      case 0x61: respond61H(id, antenna); break;
+      case 0x63: respond63H(frame, id, antenna); break;
+      case 0x70: respond70H(frame, id, antenna); break;
+      case 0x35: respond35H(id); break;
+      case 0xF0: case 0xF1: case 0xF2: respondUpdate(frame, cmd, id); break;
+      default: emit(buildResponse(cmd, id, errorBody(cmd, antenna, ERR_CMD)), options.responseDelayMs);
+    }
+  };
+
+  const consume = (data: Uint8Array) => {
+    const next = new Uint8Array(rxBuffer.length + data.length);
+    next.set(rxBuffer);
+    next.set(data, rxBuffer.length);
+    rxBuffer = next;
+    let i = 0;
+    while (i < rxBuffer.length) {
+      if (rxBuffer[i] !== 0x80) { i++; continue; }
+      if (i + 3 > rxBuffer.length) break;
+      const end = i + ((rxBuffer[i + 1] << 8) | rxBuffer[i + 2]) + 3;
+      if (end > rxBuffer.length) break;
+      handleRequest(rxBuffer.slice(i, end));
+      i = end;
+    }
+    rxBuffer = rxBuffer.slice(i);
+  };
+
+  return {
+    kind: 'simulator',
+    label: '模擬讀取器',
+    open: async () => {
+      rxBuffer = new Uint8Array(0);
+      stream = new ReadableStream<Uint8Array>({
+        start: c => { controller = c; },
+        cancel: () => { controller = null; }
+      });
+    },
+    write: async (data: Uint8Array) => {
+      if (!stream) throw new Error('模擬讀取器未開啟');
+      consume(data);
+    },
+    readable: () => stream,
+    close: async () => {
+      timers.forEach(t => clearTimeout(t));
+      timers.clear();
+      try { controller?.close(); } catch (e) {}
+      controller = null; stream = null;
+    },
+    onDisconnect: () => () => {}
+  };
+};
@@ -0,0 +1,132 @@
+
+import { describe, it, expect } from 'vitest';
+import { TestResult } from '../types';
+import { compareProportions, computeChannelStats, computeSessionStats, computeTagStats, cycleLatency, insertSorted, percentile, summarizeLatency } from './stats';
+
+let clock = 0;
+const result = (over: Partial<TestResult>): TestResult => ({
+  timestamp: new Date(Date.UTC(2026, 0, 1) + (clock++) * 1000).toISOString(),
+  cycle: 1, status: 'Success', errorCode: '0001', errorMsg: '', rawTx: '', rawRx: '', recordsFound: 0, cmdType: '64H', sessionId: 1,
+  ...over
+});
+const inventory = (cycle: number, epcs: string[], over: Partial<TestResult> = {}): TestResult =>
+  result({ cycle, epcList: epcs, recordsFound: epcs.length, ...over });
+
+describe('percentile / summarizeLatency', () => {
+  it('以最近秩法取百分位數', () => {
+    const sorted = [10, 20, 30, 40, 50, 60, 70, 80, 90, 100];
+    expect(percentile(sorted, 50)).toBe(50);
+    expect(percentile(sorted, 95)).toBe(100);
+    expect(percentile([], 50)).toBeUndefined();
+  });
+
+  it('摘要延遲分布，無資料時為 null', () => {
+    expect(summarizeLatency([1, 2, 3, 10])).toMatchObject({ count: 4, min: 1, max: 10, avg: 4 });
+    expect(summarizeLatency([])).toBeNull();
+  });
+
+  it('insertSorted 保持排序', () => {
+    const sorted = [1, 3, 5];
+    insertSorted(sorted, 4);
+    insertSorted(sorted, 0);
+    expect(sorted).toEqual([0, 1, 3, 4, 5]);
+  });
+
+  it('cycleLatency 由時間紀錄計算，逾時沒有延遲', () => {
+    expect(cycleLatency(result({ timing: { txAt: 1000, completedAt: 1012.34 } }))).toBe(12.3);
+    expect(cycleLatency(result({ timing: { txAt: 1000 } }))).toBeUndefined();
+  });
+});
+
+describe('computeSessionStats', () => {
+  it('統計成功率、逾時率與錯誤碼分布', () => {
+    const stats = computeSessionStats([
+      result({}),
+      result({ status: 'Failure', errorCode: '0101' }),
+      result({ status: 'Timeout', errorCode: 'N/A' }),
+      result({ status: 'Failure', errorCode: '0101' })
+    ]);
+    expect(stats).toMatchObject({ total: 4, success: 1, successRate: 0.25, timeoutRate: 0.25 });
+    expect(stats.errorCodes).toEqual({ '0101': 2, 'N/A': 1 });
+  });
+
+  it('CRC 與長度錯誤以錯誤類型計，不採用損毀封包中的錯誤碼', () => {
+    const stats = computeSessionStats([
+      result({ status: 'CrcError', errorCode: '0001' }),
+      result({ status: 'FramingError', errorCode: 'N/A' })
+    ]);
+    expect(stats.errorCodes).toEqual({ 'CRC 校驗錯誤': 1, '封包長度錯誤': 1 });
+  });
+
+  it('測試計畫依是否符合預期計算成功，盤點比對失敗不列入錯誤碼', () => {
+    const stats = computeSessionStats([
+      result({ status: 'Failure', errorCode: '0101', passed: true }),
+      result({ status: 'MissingTags', inventoryGrade: 'missing' })
+    ]);
+    expect(stats).toMatchObject({ success: 1, gradedCycles: 1, missingCycles: 1 });
+    expect(stats.errorCodes).toEqual({});
+  });
+
+  it('只有盤點指令計入標籤數分布', () => {
+    const stats = computeSessionStats([inventory(1, ['A1']), inventory(2, ['A1', 'B2']), result({ cmdType: '35H' })]);
+    expect(stats).toMatchObject({ tagCycles: 2, avgTags: 1.5 });
+    expect(stats.tagCounts).toEqual({ 1: 1, 2: 1 });
+  });
+});
+
+describe('computeTagStats', () => {
+  it('累計讀取次數、讀取率與最長漏讀', () => {
+    const report = computeTagStats([
+      inventory(1, ['AA 01'], { tagReads: { 'AA 01': 3 } }),
+      inventory(2, []),
+      inventory(3, []),
+      inventory(4, ['AA 01', 'BB 02'])
+    ]);
+    expect(report.cycles).toBe(4);
+    const [a, b] = report.tags;
+    expect(a).toMatchObject({ epc: 'AA01', readCount: 4, cyclesSeen: 2, readRate: 0.5, longestMissStreak: 2 });
+    // 首次出現前的盤點也視為漏讀
+    expect(b).toMatchObject({ epc: 'BB02', cyclesSeen: 1, longestMissStreak: 3 });
+  });
+
+  it('每次手動測試各算一個循環', () => {
+    const report = computeTagStats([inventory(1, ['AA']), inventory(2, []), inventory(3, ['AA'])]);
+    expect(report.cycles).toBe(3);
+    expect(report.tags[0]).toMatchObject({ cyclesSeen: 2, longestMissStreak: 1 });
+  });
+
+  it('逐一天線執行的計畫，同一循環的各天線與各步驟只算一次', () => {
+    const report = computeTagStats([1, 2].flatMap(cycle => [1, 2].flatMap(channel => [1, 2].map(step =>
+      inventory(cycle, channel === 1 ? ['AA'] : [], { channel, step }))))
+    );
+    expect(report.cycles).toBe(2);
+    expect(report.channelCycles).toEqual({ 1: 4, 2: 4 });
+    expect(report.tags[0]).toMatchObject({ cyclesSeen: 2, readRate: 1 });
+    expect(report.tags[0].byChannel).toEqual({ 1: { reads: 4, cyclesSeen: 4, readRate: 1 } });
+  });
+
+  it('不同工作階段的相同循環序號分開計算', () => {
+    const report = computeTagStats([inventory(1, ['AA'], { sessionId: 1 }), inventory(1, [], { sessionId: 2 })]);
+    expect(report.cycles).toBe(2);
+    expect(report.tags[0].readRate).toBe(0.5);
+  });
+});
+
+describe('computeChannelStats', () => {
+  it('依天線分組，未記錄天線的結果不列入', () => {
+    const stats = computeChannelStats([
+      result({ channel: 2, status: 'Failure' }), result({ channel: 1 }), result({ channel: 2 }), result({})
+    ]);
+    expect(stats.map(s => [s.channel, s.cycles, s.successRate])).toEqual([[1, 1, 1], [2, 2, 0.5]]);
+  });
+});
+
+describe('compareProportions', () => {
+  it('成功率差異顯著時標示', () => {
+    const test = compareProportions(50, 100, 90, 100)!;
+    expect(test.diff).toBeCloseTo(0.4);
+    expect(test.significant).toBe(true);
+    expect(compareProportions(50, 100, 51, 100)!.significant).toBe(false);
+    expect(compareProportions(0, 0, 1, 1)).toBeNull();
+  });
+});
@@ -0,0 +1,244 @@
+
+import { FrameError, FRAME_ERROR_MESSAGES, TestResult, TestStatus } from '../types';
+import { hexToAscii } from './protocol';
+import { isInventoryCommand } from './commands';
+
+export interface SessionStats {
+  total: number;
+  success: number;
+  successRate: number;   // 0~1
+  timeoutRate: number;   // 0~1
+  errorCodes: Record<string, number>; // 非成功結果的錯誤碼分布 (CRC/長度錯誤以錯誤類型計，不含盤點比對失敗)
+  gradedCycles: number;  // 有預期標籤組比對的循環數
+  missingCycles: number;
+  unexpectedCycles: number;
+  tagCycles: number;     // 有盤點結果 (64H/61H) 的循環數
+  avgTags: number;
+  tagCounts: Record<number, number>;  // 每循環標籤數 → 次數
+  latencies: number[];   // 已排序 (ms)
+}
+
+/**
+ * 已排序陣列的百分位數 (最近秩法)
+ */
+export const percentile = (sorted: number[], p: number): number | undefined => {
+  if (sorted.length === 0) return undefined;
+  const rank = Math.ceil((p / 100) * sorted.length);
+  return sorted[Math.min(sorted.length - 1, Math.max(0, rank - 1))];
+};
+
+/**
+ * 單一循環的往返延遲 (送出請求至收到完整回應，ms)，逾時或無時間紀錄時為空
+ */
+export const cycleLatency = (r: TestResult): number | undefined => {
+  if (r.timing?.completedAt === undefined) return undefined;
+  return Math.round((r.timing.completedAt - r.timing.txAt) * 10) / 10;
+};
+
+export interface LatencySummary {
+  count: number;
+  min: number;
+  avg: number;
+  p50: number;
+  p95: number;
+  p99: number;
+  max: number;
+}
+
+/**
+ * 由已排序的延遲陣列計算摘要，無資料時回傳 null
+ */
+export const summarizeLatency = (sorted: number[]): LatencySummary | null => {
+  if (sorted.length === 0) return null;
+  return {
+    count: sorted.length,
+    min: sorted[0],
+    avg: sorted.reduce((sum, v) => sum + v, 0) / sorted.length,
+    p50: percentile(sorted, 50)!,
+    p95: percentile(sorted, 95)!,
+    p99: percentile(sorted, 99)!,
+    max: sorted[sorted.length - 1]
+  };
+};
+
+/**
+ * 將數值插入已排序陣列並保持排序
+ */
+export const insertSorted = (sorted: number[], value: number) => {
+  let lo = 0, hi = sorted.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >> 1;
+    if (sorted[mid] <= value) lo = mid + 1; else hi = mid;
+  }
+  sorted.splice(lo, 0, value);
+};
+
+// 鏈路層錯誤的錯誤碼取自損毀的封包，不可信
+const FRAME_ERROR_STATUS: Partial<Record<TestStatus, FrameError>> = { CrcError: 'crc', FramingError: 'length' };
+
+export const computeSessionStats = (results: TestResult[]): SessionStats => {
+  const errorCodes: Record<string, number> = {};
+  const tagCounts: Record<number, number> = {};
+  const latencies: number[] = [];
+  let success = 0, timeouts = 0, tagCycles = 0, tagSum = 0, gradedCycles = 0, missingCycles = 0, unexpectedCycles = 0;
+
+  results.forEach(r => {
+    if (r.passed ?? r.status === 'Success') success++;
+    else if (!r.inventoryGrade) {
+      const frameError = FRAME_ERROR_STATUS[r.status];
+      const key = frameError ? FRAME_ERROR_MESSAGES[frameError] : r.errorCode;
+      errorCodes[key] = (errorCodes[key] || 0) + 1;
+    }
+    if (r.inventoryGrade) gradedCycles++;
+    if (r.inventoryGrade === 'missing') missingCycles++;
+    if (r.inventoryGrade === 'unexpected') unexpectedCycles++;
+    if (r.status === 'Timeout') timeouts++;
+    if (isInventoryCommand(r.cmdType)) {
+      tagCycles++;
+      tagSum += r.recordsFound;
+      tagCounts[r.recordsFound] = (tagCounts[r.recordsFound] || 0) + 1;
+    }
+    const latency = cycleLatency(r);
+    if (latency !== undefined) latencies.push(latency);
+  });
+  latencies.sort((a, b) => a - b);
+
+  const total = results.length;
+  return {
+    total, success,
+    successRate: total > 0 ? success / total : 0,
+    timeoutRate: total > 0 ? timeouts / total : 0,
+    errorCodes, gradedCycles, missingCycles, unexpectedCycles, tagCycles,
+    avgTags: tagCycles > 0 ? tagSum / tagCycles : 0,
+    tagCounts, latencies
+  };
+};
+
+/**
+ * 標準常態分布累積函數 (Abramowitz-Stegun 7.1.26 近似)
+ */
+const normalCdf = (z: number): number => {
+  const t = 1 / (1 + 0.3275911 * Math.abs(z) / Math.SQRT2);
+  const erf = 1 - (((((1.061405429 * t - 1.453152027) * t) + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-(z * z) / 2);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+};
+
+export interface ProportionTest {
+  diff: number;    // B - A 的成功率差 (0~1)
+  z: number;
+  pValue: number;  // 雙尾
+  significant: boolean; // p < 0.05
+}
+
+/**
+ * 兩獨立比例的 z 檢定，用於判斷兩個工作階段的成功率差異是否顯著
+ */
+export const compareProportions = (successA: number, totalA: number, successB: number, totalB: number): ProportionTest | null => {
+  if (totalA === 0 || totalB === 0) return null;
+  const pA = successA / totalA, pB = successB / totalB;
+  const pooled = (successA + successB) / (totalA + totalB);
+  const se = Math.sqrt(pooled * (1 - pooled) * (1 / totalA + 1 / totalB));
+  if (se === 0) return { diff: pB - pA, z: 0, pValue: 1, significant: false };
+  const z = (pB - pA) / se;
+  const pValue = 2 * (1 - normalCdf(Math.abs(z)));
+  return { diff: pB - pA, z, pValue, significant: pValue < 0.05 };
+};
+
+export interface ChannelReadStat {
+  reads: number;          // 此天線的原始讀取次數
+  cyclesSeen: number;     // 此天線讀到標籤的盤點次數
+  readRate: number;       // cyclesSeen / 此天線的盤點次數 (0~1)
+}
+
+export interface TagStat {
+  epc: string;
+  ascii: string;
+  readCount: number;      // 原始讀取次數 (同一循環重複回報也計入)
+  cyclesSeen: number;     // 任一天線讀到此標籤的循環數
+  readRate: number;       // cyclesSeen / 盤點循環數 (0~1)
+  firstSeen: string;
+  lastSeen: string;
+  longestMissStreak: number; // 最長連續未讀到的循環數
+  byChannel: Record<number, ChannelReadStat>;
+}
+
+export interface TagStatsReport {
+  cycles: number;                        // 盤點循環數，逐一天線時同一循環的各天線合計一次
+  channelCycles: Record<number, number>; // 天線 → 盤點次數
+  tags: TagStat[];
+}
+
+/**
+ * 彙整 64H/61H 盤點結果中每張標籤的讀取統計 (results 順序不限)
+ */
+export const computeTagStats = (results: TestResult[]): TagStatsReport => {
+  const inventories = results
+    .filter(r => isInventoryCommand(r.cmdType))
+    .sort((a, b) => a.timestamp.localeCompare(b.timestamp));
+  const channelCycles: Record<number, number> = {};
+  const tags = new Map<string, { readCount: number; cyclesSeen: number; firstSeen: string; lastSeen: string; lastIdx: number; longestMissStreak: number; byChannel: Record<number, { reads: number; cyclesSeen: number }> }>();
+  let cycles = 0, lastKey = '';
+
+  inventories.forEach(r => {
+    // 連續且工作階段、循環序號相同的結果屬於同一循環 (逐一天線、計畫的多個步驟)，天線另計於 channelCycles
+    const key = `${r.sessionId ?? ''}/${r.cycle}`;
+    if (cycles === 0 || key !== lastKey) cycles++;
+    lastKey = key;
+    const idx = cycles - 1;
+    const channel = r.channel ?? 0;
+    channelCycles[channel] = (channelCycles[channel] || 0) + 1;
+    // 未記錄原始次數的舊結果，每個 EPC 以一次計
+    const reads = r.tagReads || Object.fromEntries((r.epcList || []).map(epc => [epc, 1]));
+    Object.entries(reads).forEach(([raw, count]) => {
+      const epc = raw.replace(/\s/g, '');
+      let tag = tags.get(epc);
+      // 首次出現前的盤點也視為漏讀
+      if (!tag) tags.set(epc, tag = { readCount: 0, cyclesSeen: 0, firstSeen: r.timestamp, lastSeen: r.timestamp, lastIdx: -1, longestMissStreak: 0, byChannel: {} });
+      const perChannel = tag.byChannel[channel] ??= { reads: 0, cyclesSeen: 0 };
+      perChannel.reads += count; perChannel.cyclesSeen++;
+      tag.readCount += count; tag.lastSeen = r.timestamp;
+      if (tag.lastIdx === idx) return;
+      tag.longestMissStreak = Math.max(tag.longestMissStreak, idx - tag.lastIdx - 1);
+      tag.cyclesSeen++; tag.lastIdx = idx;
+    });
+  });
+
+  return {
+    cycles, channelCycles,
+    tags: Array.from(tags.entries()).map(([epc, t]) => ({
+      epc,
+      ascii: hexToAscii(epc),
+      readCount: t.readCount,
+      cyclesSeen: t.cyclesSeen,
+      readRate: cycles > 0 ? t.cyclesSeen / cycles : 0,
+      firstSeen: t.firstSeen,
+      lastSeen: t.lastSeen,
+      longestMissStreak: Math.max(t.longestMissStreak, cycles - t.lastIdx - 1),
+      byChannel: Object.fromEntries(Object.entries(t.byChannel).map(([channel, c]) => [channel, { ...c, readRate: c.cyclesSeen / channelCycles[Number(channel)] }]))
+    }))
+  };
+};
+
+export interface ChannelStat {
+  channel: number;
+  cycles: number;
+  successRate: number;
+  avgTags: number;
+  latency: LatencySummary | null;
+}
+
+/**
+ * 依天線分組統計；未記錄天線的舊結果不列入
+ */
+export const computeChannelStats = (results: TestResult[]): ChannelStat[] => {
+  const groups = new Map<number, TestResult[]>();
+  results.forEach(r => {
+    if (r.channel === undefined) return;
+    if (!groups.has(r.channel)) groups.set(r.channel, []);
+    groups.get(r.channel)!.push(r);
+  });
+  return Array.from(groups.entries()).sort((a, b) => a[0] - b[0]).map(([channel, list]) => {
+    const stats = computeSessionStats(list);
+    return { channel, cycles: list.length, successRate: stats.successRate, avgTags: stats.avgTags, latency: summarizeLatency(stats.latencies) };
+  });
+};
@@ -0,0 +1,35 @@
+
+import { describe, it, expect } from 'vitest';
+import { TestResult } from '../types';
+import { buildSweepPowers, summarizeSweep } from './sweep';
+
+const result = (configPower: number, epcs: string[], status: TestResult['status'] = 'Success'): TestResult => ({
+  timestamp: '2026-01-01T00:00:00.000Z', cycle: 1, status, errorCode: '0001', errorMsg: '', rawTx: '', rawRx: '',
+  recordsFound: epcs.length, cmdType: '64H', epcList: epcs, configPower
+});
+
+describe('buildSweepPowers', () => {
+  it('含起點與終點，可遞減', () => {
+    expect(buildSweepPowers(15, 21, 3)).toEqual([15, 18, 21]);
+    expect(buildSweepPowers(21, 15, 4)).toEqual([21, 17]);
+  });
+
+  it('間距不大於 0 時沒有掃描點', () => {
+    expect(buildSweepPowers(15, 21, 0)).toEqual([]);
+  });
+});
+
+describe('summarizeSweep', () => {
+  it('依功率分組並找出每張標籤的最低讀取與穩定功率', () => {
+    const { points, tags } = summarizeSweep([
+      result(20, ['AA 01'], 'Failure'), result(20, []),
+      result(25, ['AA 01']), result(25, ['AA01', 'BB02']),
+      result(30, ['AA01', 'BB02']), result(30, ['AA01', 'BB02'])
+    ]);
+    expect(points.map(p => [p.power, p.cycles, p.successRate, p.avgTags])).toEqual([[20, 2, 0.5, 0.5], [25, 2, 1, 1.5], [30, 2, 1, 2]]);
+    expect(tags).toEqual([
+      { epc: 'BB02', minSeenPower: 25, minStablePower: 30 },
+      { epc: 'AA01', minSeenPower: 20, minStablePower: 25 }
+    ]);
+  });
+});
@@ -0,0 +1,74 @@
+
+import { SweepCommandType, TestResult } from '../types';
+import { LatencySummary, summarizeLatency, insertSorted, cycleLatency } from './stats';
+import { normalizeEpc } from './inventory';
+
+export interface SweepPoint {
+  power: number;
+  cycles: number;
+  success: number;
+  successRate: number; // 0~1
+  avgTags: number;
+  latency: LatencySummary | null;
+}
+
+export interface SweepTagPower {
+  epc: string;
+  minSeenPower?: number;  // 至少讀到一次的最低功率
+  minStablePower?: number; // 該點所有循環都讀到的最低功率
+}
+
+export const SWEEP_COMMAND_TYPES: SweepCommandType[] = ['64H', '61H', '63H'];
+
+/**
+ * 依起訖功率與間距產生掃描點 (含終點)，間距需大於 0
+ */
+export const buildSweepPowers = (start: number, end: number, step: number): number[] => {
+  if (step <= 0) return [];
+  const powers: number[] = [];
+  const dir = end >= start ? 1 : -1;
+  for (let p = start; dir > 0 ? p <= end : p >= end; p += step * dir) powers.push(p);
+  return powers;
+};
+
+/**
+ * 依 configPower 將掃描結果分組，計算每個功率點與每張標籤的統計
+ */
+export const summarizeSweep = (results: TestResult[]): { points: SweepPoint[]; tags: SweepTagPower[] } => {
+  const groups = new Map<number, TestResult[]>();
+  results.forEach(r => {
+    if (r.configPower === undefined) return;
+    if (!groups.has(r.configPower)) groups.set(r.configPower, []);
+    groups.get(r.configPower)!.push(r);
+  });
+
+  const tagSeen = new Map<string, Map<number, number>>(); // epc → power → 讀到的循環數
+  const points = Array.from(groups.entries()).sort((a, b) => a[0] - b[0]).map(([power, list]) => {
+    const latencies: number[] = [];
+    let success = 0, tagSum = 0;
+    list.forEach(r => {
+      if (r.passed ?? r.status === 'Success') success++;
+      tagSum += r.recordsFound;
+      const latency = cycleLatency(r);
+      if (latency !== undefined) insertSorted(latencies, latency);
+      new Set((r.epcList || []).map(normalizeEpc)).forEach(epc => {
+        if (!tagSeen.has(epc)) tagSeen.set(epc, new Map());
+        const seen = tagSeen.get(epc)!;
+        seen.set(power, (seen.get(power) || 0) + 1);
+      });
+    });
+    return { power, cycles: list.length, success, successRate: success / list.length, avgTags: tagSum / list.length, latency: summarizeLatency(latencies) };
+  });
+
+  const tags = Array.from(tagSeen.entries()).map(([epc, seen]) => {
+    const seenPowers = points.filter(p => (seen.get(p.power) || 0) > 0).map(p => p.power);
+    const stablePowers = points.filter(p => seen.get(p.power) === p.cycles).map(p => p.power);
+    return {
+      epc,
+      minSeenPower: seenPowers.length > 0 ? Math.min(...seenPowers) : undefined,
+      minStablePower: stablePowers.length > 0 ? Math.min(...stablePowers) : undefined
+    };
+  }).sort((a, b) => (b.minSeenPower ?? 0) - (a.minSeenPower ?? 0));
+
+  return { points, tags };
+};
@@ -0,0 +1,55 @@
+
+import { TransportType } from '../types';
+
+/**
+ * 傳輸層介面：Web Serial 串口與模擬讀取器皆實作此介面
+ */
+export interface Transport {
+  kind: TransportType;
+  label: string;
+  open: (baudRate: number) => Promise<void>;
+  write: (data: Uint8Array) => Promise<void>;
+  readable: () => ReadableStream<Uint8Array> | null;
+  close: () => Promise<void>;
+  /** 註冊斷線事件，回傳取消註冊函式 */
+  onDisconnect: (handler: () => void) => () => void;
+}
+
+export const isSerialSupported = (): boolean => !!(navigator as any).serial;
+
+/**
+ * Web Serial 串口實作
+ */
+export const createSerialTransport = (port: any): Transport => ({
+  kind: 'serial',
+  label: '串口',
+  open: (baudRate: number) => port.open({ baudRate }),
+  write: async (data: Uint8Array) => {
+    if (!port.writable) throw new Error('串口不可寫入');
+    const writer = port.writable.getWriter();
+    try {
+      await writer.write(data);
+    } finally {
+      writer.releaseLock();
+    }
+  },
+  readable: () => port.readable || null,
+  close: () => port.close(),
+  onDisconnect: (handler: () => void) => {
+    const serial = (navigator as any).serial;
+    if (!serial) return () => {};
+    const listener = (event: any) => { if (event.port === port) handler(); };
+    serial.addEventListener('disconnect', listener);
+    return () => serial.removeEventListener('disconnect', listener);
+  }
+});
+
+/**
+ * 彈出瀏覽器串口選擇視窗並建立傳輸層
+ */
+export const requestSerialTransport = async (): Promise<Transport> => {
+  const serial = (navigator as any).serial;
+  if (!serial) throw new Error('瀏覽器不支援 Web Serial');
+  const port = await serial.requestPort();
+  return createSerialTransport(port);
+};
@@ -0,0 +1,32 @@
+
+import { WritePattern } from '../types';
+import { hexToUint8Array, uint8ArrayToHex } from './protocol';
+
+/**
+ * 產生本次循環的寫入資料 (長度為 lenBytes)
+ * fixed: 使用設定的寫入資料；random: 隨機位元組；increment: 依循環序號遞增
+ */
+export const generateWriteData = (pattern: WritePattern, baseHex: string, lenBytes: number, cycle: number): string => {
+  const data = new Uint8Array(lenBytes);
+  if (pattern === 'random') {
+    for (let i = 0; i < lenBytes; i++) data[i] = Math.floor(Math.random() * 256);
+  } else if (pattern === 'increment') {
+    for (let i = 0; i < lenBytes; i++) data[i] = (cycle + i) & 0xFF;
+  } else {
+    data.set(hexToUint8Array(baseHex).slice(0, lenBytes));
+  }
+  return uint8ArrayToHex(data).replace(/\s/g, '');
+};
+
+/**
+ * 逐位元組比對寫入與讀回的資料，回傳不一致的位元組索引 (長度不同時多出的部分亦計入)
+ */
+export const diffBytes = (writtenHex: string, readHex: string): number[] => {
+  const written = hexToUint8Array(writtenHex);
+  const read = hexToUint8Array(readHex);
+  const mismatches: number[] = [];
+  for (let i = 0; i < Math.max(written.length, read.length); i++) {
+    if (written[i] !== read[i]) mismatches.push(i);
+  }
+  return mismatches;
+};